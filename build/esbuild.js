@@ -1,6 +1,7 @@
 /* eslint-disable @typescript-eslint/no-var-requires */
 const { build } = require('esbuild');
-const { join } = require('path');
+const { join, dirname } = require('path');
+const { copyFileSync, mkdirSync } = require('fs');
 
 const watch = process.argv.includes('--watch');
 
@@ -13,17 +14,37 @@ const common = {
 	format: 'cjs',
 	sourcemap: true,
 	target: 'node18',
-	external: ['vscode'],
+	// O .wasm é copiado para dist/; o caminho do pacote só é resolvido em desenvolvimento
+	external: ['vscode', '@resvg/resvg-wasm/index_bg.wasm'],
 	logLevel: 'info'
 };
 
+/** CLI standalone (sem dependência do vscode) */
+/** @type {import('esbuild').BuildOptions} */
+const cli = {
+	...common,
+	entryPoints: [join('src', 'cli.ts')],
+	outfile: join('dist', 'cli.js'),
+	external: ['@resvg/resvg-wasm/index_bg.wasm'],
+	banner: { js: '#!/usr/bin/env node' }
+};
+
+/** Copia o WASM do resvg para dist/ (carregado em tempo de execução pelo svgRenderer) */
+function copyWasm() {
+	const source = require.resolve('@resvg/resvg-wasm/index_bg.wasm');
+	const target = join('dist', 'resvg.wasm');
+	mkdirSync(dirname(target), { recursive: true });
+	copyFileSync(source, target);
+}
+
 async function run() {
+	copyWasm();
 	if (watch) {
-		const ctx = await build({ ...common, watch: true });
+		const ctx = await Promise.all([common, cli].map((opts) => build({ ...opts, watch: true })));
 		console.log('Watching for changes...');
 		return ctx;
 	}
-	await build(common);
+	await Promise.all([build(common), build(cli)]);
 }
 
 run().catch((err) => {
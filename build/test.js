@@ -0,0 +1,33 @@
+/* eslint-disable @typescript-eslint/no-var-requires */
+const { build } = require('esbuild');
+const { join, basename } = require('path');
+const { readdirSync } = require('fs');
+const { spawnSync } = require('child_process');
+
+/** Testes do núcleo (src/core/*.test.ts): empacotados em out/test e executados com node --test */
+async function run() {
+	const dir = join('src', 'core');
+	const entryPoints = readdirSync(dir)
+		.filter((f) => f.endsWith('.test.ts'))
+		.map((f) => join(dir, f));
+	const outdir = join('out', 'test');
+	await build({
+		entryPoints,
+		outdir,
+		bundle: true,
+		platform: 'node',
+		format: 'cjs',
+		sourcemap: true,
+		target: 'node18',
+		external: ['@resvg/resvg-wasm'],
+		logLevel: 'warning'
+	});
+	const files = entryPoints.map((f) => join(outdir, `${basename(f, '.ts')}.js`));
+	const result = spawnSync(process.execPath, ['--test', ...files], { stdio: 'inherit' });
+	process.exit(result.status ?? 1);
+}
+
+run().catch((err) => {
+	console.error(err);
+	process.exit(1);
+});
@@ -0,0 +1,263 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import {
+	IAClient,
+	IAResponseSuggestion,
+	findSvgNodes,
+	needsAccessibility,
+	findImgNodes,
+	imgNeedsAccessibility,
+	dialectForLanguage,
+	SvgNodeRange,
+	ImgNodeRange,
+	SUPPORTED_LANGUAGES,
+	languageIdForPath,
+	scanText,
+	SuggestOptions,
+	isCancellation,
+	log
+} from './core';
+import { findAuditableFiles, readFileText } from './workspaceAudit';
+import { buildWorkspaceEditForSuggestion, buildWorkspaceEditForImg } from './workspaceEdits';
+import { AnalysisStore } from './reportExport';
+import { suggestOptionsFor, toAbortSignal } from './vscodeHost';
+import { DocumentChangeTracker } from './editGuard';
+
+type FixTarget =
+	| { doc: vscode.TextDocument; kind: 'svg'; node: SvgNodeRange; options: SuggestOptions }
+	| { doc: vscode.TextDocument; kind: 'img'; node: ImgNodeRange; options: SuggestOptions };
+
+interface FixResult {
+	target: FixTarget;
+	suggestion: IAResponseSuggestion;
+}
+
+/**
+ * Executa `worker` para cada item com no máximo `limit` execuções simultâneas.
+ * Itens ainda não iniciados são ignorados após o cancelamento.
+ */
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	worker: (item: T, index: number) => Promise<R>,
+	token?: vscode.CancellationToken
+): Promise<(R | undefined)[]> {
+	const results: (R | undefined)[] = new Array(items.length);
+	let next = 0;
+	const runners = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+		while (next < items.length && !token?.isCancellationRequested) {
+			const index = next++;
+			results[index] = await worker(items[index], index);
+		}
+	});
+	await Promise.all(runners);
+	return results;
+}
+
+/**
+ * Coleta todos os <svg>/<img> sinalizados no documento
+ */
+function collectTargets(doc: vscode.TextDocument): FixTarget[] {
+	const text = doc.getText();
+	const dialect = dialectForLanguage(doc.languageId);
+	const targets: FixTarget[] = [];
+	for (const node of findSvgNodes(text, dialect).filter(needsAccessibility)) {
+		targets.push({ doc, kind: 'svg', node, options: suggestOptionsFor(doc, text, node.element) });
+	}
+	for (const node of findImgNodes(text, dialect).filter(imgNeedsAccessibility)) {
+		targets.push({ doc, kind: 'img', node, options: suggestOptionsFor(doc, text, node.element) });
+	}
+	return targets;
+}
+
+function describeFix(result: FixResult): string {
+	const { target, suggestion } = result;
+	if (target.kind === 'svg') {
+		return suggestion.isDecorative
+			? vscode.l10n.t('Decorative SVG → aria-hidden="true"')
+			: vscode.l10n.t('SVG → "{0}"', suggestion.titleText?.trim() ?? '');
+	}
+	const fileName = path.posix.basename(target.node.src) || 'img';
+	return suggestion.isDecorative
+		? vscode.l10n.t('Decorative image {0} → alt=""', fileName)
+		: vscode.l10n.t('Image {0} → alt="{1}"', fileName, suggestion.titleText?.trim() ?? '');
+}
+
+/**
+ * Gera sugestões para todos os alvos (concorrência limitada) e abre o
+ * Refactor Preview para o usuário aceitar cada item antes de aplicar.
+ */
+async function suggestAndPreview(
+	targets: FixTarget[],
+	iaClient: IAClient,
+	analyses: AnalysisStore
+): Promise<void> {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const concurrency = config.get<number>('maxConcurrentRequests') ?? 4;
+	// Edições feitas durante a geração deslocam os elementos; sem isso a correção iria para o lugar errado
+	const trackers = new Map<vscode.TextDocument, DocumentChangeTracker>();
+	for (const target of targets) {
+		if (!trackers.has(target.doc)) trackers.set(target.doc, new DocumentChangeTracker(target.doc));
+	}
+	try {
+		const results = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: vscode.l10n.t('A11Y Assist: Generating suggestions'),
+				cancellable: true
+			},
+			async (progress, token) => {
+				let done = 0;
+				const increment = 100 / targets.length;
+				// Cancelar aborta também as requisições em andamento
+				const signal = toAbortSignal(token);
+				const suggestions = await mapWithConcurrency(
+					targets,
+					concurrency,
+					async (target): Promise<FixResult | undefined> => {
+						try {
+							const suggestion =
+								target.kind === 'svg'
+									? await iaClient.suggestForSvg(target.node.content, { ...target.options, signal })
+									: await iaClient.suggestForImg(target.node.src, target.node.content, target.doc.uri.fsPath, { ...target.options, signal });
+							return { target, suggestion };
+						} catch (err) {
+							// Cancelamento não é falha do item: o lote inteiro é descartado
+							if (!isCancellation(err)) {
+								const file = vscode.workspace.asRelativePath(target.doc.uri, false);
+								const line = target.doc.positionAt(target.node.start).line + 1;
+								log.warn(`Falha ao gerar sugestão para ${target.kind} em ${file}:${line}: ${(err as Error).message}`);
+							}
+							return undefined;
+						} finally {
+							done++;
+							progress.report({ message: `${done}/${targets.length}`, increment });
+						}
+					},
+					token
+				);
+				return token.isCancellationRequested ? undefined : suggestions;
+			}
+		);
+
+		if (!results) {
+			vscode.window.showWarningMessage(vscode.l10n.t('Suggestion generation cancelled. No changes were applied.'));
+			return;
+		}
+
+		const edit = new vscode.WorkspaceEdit();
+		const included: FixResult[] = [];
+		let count = 0;
+		let changed = 0;
+		for (const result of results) {
+			if (!result) continue;
+			const { target, suggestion } = result;
+			const dialect = dialectForLanguage(target.doc.languageId);
+			const tracker = trackers.get(target.doc)!;
+			const node = target.kind === 'svg'
+				? tracker.relocate(target.node, (text) => findSvgNodes(text, dialect))
+				: tracker.relocate(target.node, (text) => findImgNodes(text, dialect));
+			if (!node) {
+				changed++;
+				continue;
+			}
+			const line = target.doc.positionAt(node.start).line + 1;
+			const metadata: vscode.WorkspaceEditEntryMetadata = {
+				needsConfirmation: true,
+				label: describeFix(result),
+				description: `${vscode.workspace.asRelativePath(target.doc.uri)}:${line}`
+			};
+			if ('src' in node) {
+				buildWorkspaceEditForImg(target.doc, node, suggestion, edit, metadata);
+			} else {
+				buildWorkspaceEditForSuggestion(target.doc, node, suggestion, edit, metadata);
+			}
+			included.push(result);
+			count++;
+		}
+		if (changed) {
+			vscode.window.showWarningMessage(vscode.l10n.t('{0} element(s) changed during generation and were left out.', changed));
+		}
+
+		const failed = targets.length - count - changed;
+		if (!count) {
+			vscode.window.showWarningMessage(vscode.l10n.t('No suggestion could be generated.'));
+			return;
+		}
+
+		// needsConfirmation faz o VS Code abrir o Refactor Preview; nada é salvo automaticamente
+		const applied = await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+		if (applied) {
+			// Itens desmarcados no Refactor Preview não entram nos relatórios
+			for (const { target, suggestion } of included) {
+				const start = trackers.get(target.doc)!.mapOffset(target.node.start);
+				if (start !== undefined) analyses.recordApplied(target.doc, target.kind, start, suggestion);
+			}
+			vscode.window.showInformationMessage(
+				failed
+					? vscode.l10n.t('{0} suggestion(s) sent for review; {1} failed.', count, failed)
+					: vscode.l10n.t('{0} suggestion(s) sent for review.', count)
+			);
+		}
+	} finally {
+		for (const tracker of trackers.values()) tracker.dispose();
+	}
+}
+
+/**
+ * Corrige todos os <svg>/<img> sinalizados no documento (ativo ou escolhido no Explorer)
+ */
+export async function fixAllInFile(
+	doc: vscode.TextDocument,
+	iaClient: IAClient,
+	analyses: AnalysisStore
+): Promise<void> {
+	if (!SUPPORTED_LANGUAGES.includes(doc.languageId)) {
+		vscode.window.showInformationMessage(vscode.l10n.t('File type not supported by A11Y Assist.'));
+		return;
+	}
+	const targets = collectTargets(doc);
+	if (!targets.length) {
+		vscode.window.showInformationMessage(vscode.l10n.t('No eligible SVG or image found in this file.'));
+		return;
+	}
+	await suggestAndPreview(targets, iaClient, analyses);
+}
+
+/**
+ * Corrige todos os <svg>/<img> sinalizados em todos os arquivos do workspace
+ */
+export async function fixAllInWorkspace(iaClient: IAClient, analyses: AnalysisStore): Promise<void> {
+	if (!vscode.workspace.workspaceFolders?.length) {
+		vscode.window.showInformationMessage(vscode.l10n.t('Open a folder or workspace to fix all files.'));
+		return;
+	}
+
+	const targets = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: vscode.l10n.t('A11Y Assist: Looking for elements without accessibility'),
+			cancellable: true
+		},
+		async (_progress, token) => {
+			const found: FixTarget[] = [];
+			for (const uri of await findAuditableFiles(token)) {
+				if (token.isCancellationRequested) return undefined;
+				const languageId = languageIdForPath(uri.path);
+				if (!languageId) continue;
+				// Só abre (em memória) os documentos que têm problemas
+				const text = await readFileText(uri);
+				if (!scanText(text, dialectForLanguage(languageId)).length) continue;
+				found.push(...collectTargets(await vscode.workspace.openTextDocument(uri)));
+			}
+			return found;
+		}
+	);
+
+	if (!targets) return;
+	if (!targets.length) {
+		vscode.window.showInformationMessage(vscode.l10n.t('No eligible SVG or image found in the workspace.'));
+		return;
+	}
+	await suggestAndPreview(targets, iaClient, analyses);
+}
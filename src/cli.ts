@@ -0,0 +1,363 @@
+/**
+ * CLI do A11Y Assist para pipelines de CI
+ * Analisa arquivos HTML/JSX/TSX, imprime as falhas como arquivo:linha:coluna
+ * e termina com código != 0 quando restam violações.
+ *
+ * Uso: svg-a11y-assist [opções] [arquivos|diretórios|globs...]
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import {
+	scanText,
+	languageIdForPath,
+	createPositionResolver,
+	A11yFinding,
+	GitignoreMatcher,
+	globToRegExp,
+	dialectForLanguage,
+	findSvgNodes,
+	needsAccessibility,
+	findImgNodes,
+	imgNeedsAccessibility,
+	computeSvgEdits,
+	computeImgEdits,
+	applyTextEdits,
+	TextEdit,
+	analyzeSvgHeuristic,
+	analyzeImgHeuristic,
+	ReportEntry,
+	toReportEntries,
+	buildJsonReport,
+	buildSarifReport
+} from './core';
+
+const EXIT_OK = 0;
+const EXIT_VIOLATIONS = 1;
+const EXIT_USAGE = 2;
+
+/** Diretórios nunca percorridos */
+const ALWAYS_SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+
+const DEFAULT_GLOB = '**/*.{html,htm,jsx,tsx}';
+
+const HELP = `Uso: svg-a11y-assist [opções] [arquivos|diretórios|globs...]
+
+Analisa <svg> e <img> em arquivos HTML/JSX/TSX (WCAG 2.2 - 1.1.1).
+Sem argumentos, analisa o diretório atual.
+
+Opções:
+  --fix               Corrige as falhas com a heurística local quando há indício
+                      claro (ícone, decorativa, logo com nome) e grava os arquivos;
+                      as demais continuam contadas como violações
+  --ignore <glob>     Ignora arquivos que casam com o glob (pode repetir)
+  --no-gitignore      Não respeita os arquivos .gitignore
+  --format <formato>  Formato da saída: text (padrão), json ou sarif (SARIF 2.1.0)
+  --output <arquivo>  Grava o relatório no arquivo em vez da saída padrão
+  -h, --help          Mostra esta ajuda
+
+Códigos de saída:
+  0  nenhuma violação restante
+  1  violações encontradas
+  2  erro de uso`;
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif'];
+
+interface CliOptions {
+	patterns: string[];
+	fix: boolean;
+	ignore: string[];
+	useGitignore: boolean;
+	format: OutputFormat;
+	output?: string;
+	help: boolean;
+}
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+	const opts: CliOptions = {
+		patterns: [],
+		fix: false,
+		ignore: [],
+		useGitignore: true,
+		format: 'text',
+		help: false
+	};
+	for (let i = 0; i < argv.length; i++) {
+		const arg = argv[i];
+		switch (arg) {
+			case '--fix':
+				opts.fix = true;
+				break;
+			case '--ignore': {
+				const value = argv[++i];
+				if (!value) throw new UsageError('--ignore requer um glob');
+				opts.ignore.push(value);
+				break;
+			}
+			case '--no-gitignore':
+				opts.useGitignore = false;
+				break;
+			case '--format': {
+				const value = argv[++i] as OutputFormat;
+				if (!OUTPUT_FORMATS.includes(value)) {
+					throw new UsageError(`--format requer um de: ${OUTPUT_FORMATS.join(', ')}`);
+				}
+				opts.format = value;
+				break;
+			}
+			case '--output': {
+				const value = argv[++i];
+				if (!value) throw new UsageError('--output requer um caminho de arquivo');
+				opts.output = value;
+				break;
+			}
+			case '-h':
+			case '--help':
+				opts.help = true;
+				break;
+			default:
+				if (arg.startsWith('-')) throw new UsageError(`Opção desconhecida: ${arg}`);
+				opts.patterns.push(arg);
+		}
+	}
+	if (!opts.patterns.length) opts.patterns.push('.');
+	return opts;
+}
+
+function toPosix(p: string): string {
+	return p.split(path.sep).join('/');
+}
+
+function hasGlobChars(p: string): boolean {
+	return /[*?[\]{}]/.test(p);
+}
+
+/**
+ * Percorre `dir` recursivamente, chamando `onFile` com caminhos relativos a `cwd`
+ */
+function walk(
+	dir: string,
+	cwd: string,
+	isIgnored: (relPath: string) => boolean,
+	onFile: (relPath: string) => void
+): void {
+	let entries: fs.Dirent[];
+	try {
+		entries = fs.readdirSync(dir, { withFileTypes: true });
+	} catch {
+		return;
+	}
+	for (const entry of entries) {
+		const abs = path.join(dir, entry.name);
+		const rel = toPosix(path.relative(cwd, abs));
+		if (entry.isDirectory()) {
+			if (ALWAYS_SKIPPED_DIRS.has(entry.name) || isIgnored(rel + '/')) continue;
+			walk(abs, cwd, isIgnored, onFile);
+		} else if (entry.isFile() && !isIgnored(rel)) {
+			onFile(rel);
+		}
+	}
+}
+
+/**
+ * Carrega o .gitignore de `cwd` e dos subdiretórios percorridos
+ */
+function loadGitignore(cwd: string): GitignoreMatcher {
+	const matcher = new GitignoreMatcher();
+	const visit = (dir: string) => {
+		const gitignorePath = path.join(dir, '.gitignore');
+		if (fs.existsSync(gitignorePath)) {
+			matcher.add(toPosix(path.relative(cwd, dir)), fs.readFileSync(gitignorePath, 'utf-8'));
+		}
+		let entries: fs.Dirent[];
+		try {
+			entries = fs.readdirSync(dir, { withFileTypes: true });
+		} catch {
+			return;
+		}
+		for (const entry of entries) {
+			if (!entry.isDirectory() || ALWAYS_SKIPPED_DIRS.has(entry.name)) continue;
+			const sub = path.join(dir, entry.name);
+			if (matcher.ignores(toPosix(path.relative(cwd, sub)) + '/')) continue;
+			visit(sub);
+		}
+	};
+	visit(cwd);
+	return matcher;
+}
+
+/**
+ * Expande arquivos, diretórios e globs em uma lista ordenada de caminhos relativos a `cwd`
+ */
+function collectFiles(opts: CliOptions, cwd: string): string[] {
+	const gitignore = opts.useGitignore ? loadGitignore(cwd) : undefined;
+	const ignoreRegexes = opts.ignore.map((g) => globToRegExp(toPosix(g)));
+	const isIgnored = (rel: string) => {
+		const clean = rel.replace(/\/$/, '');
+		if (ignoreRegexes.some((re) => re.test(clean))) return true;
+		return !!gitignore && gitignore.ignores(clean);
+	};
+
+	const files = new Set<string>();
+	for (const pattern of opts.patterns) {
+		const posixPattern = toPosix(pattern).replace(/^\.\//, '');
+		if (!hasGlobChars(posixPattern)) {
+			const abs = path.resolve(cwd, pattern);
+			if (!fs.existsSync(abs)) throw new UsageError(`Arquivo ou diretório não encontrado: ${pattern}`);
+			if (fs.statSync(abs).isFile()) {
+				// Arquivos informados explicitamente não passam pelos ignores
+				files.add(toPosix(path.relative(cwd, abs)));
+				continue;
+			}
+			const base = toPosix(path.relative(cwd, abs));
+			const regex = globToRegExp(base ? `${base}/${DEFAULT_GLOB}` : DEFAULT_GLOB);
+			walk(abs, cwd, isIgnored, (rel) => regex.test(rel) && files.add(rel));
+			continue;
+		}
+		// Diretório base = segmentos iniciais sem curingas
+		const segments = posixPattern.split('/');
+		const firstGlob = segments.findIndex(hasGlobChars);
+		const baseDir = path.resolve(cwd, segments.slice(0, firstGlob).join('/') || '.');
+		const regex = globToRegExp(posixPattern);
+		walk(baseDir, cwd, isIgnored, (rel) => regex.test(rel) && files.add(rel));
+	}
+	return [...files].sort();
+}
+
+/**
+ * Aplica a heurística local aos elementos sinalizados e retorna o texto corrigido.
+ * Palpites genéricos e marcadores (ex.: "[Descrição da imagem]") não são gravados:
+ * o elemento continua sinalizado e conta como violação.
+ */
+function fixText(text: string, languageId: string): string {
+	const dialect = dialectForLanguage(languageId);
+	const edits: TextEdit[] = [];
+	for (const node of findSvgNodes(text, dialect).filter(needsAccessibility)) {
+		const result = analyzeSvgHeuristic(node.content);
+		if (result.confident) edits.push(...computeSvgEdits(node, result.suggestion, dialect));
+	}
+	for (const node of findImgNodes(text, dialect).filter(imgNeedsAccessibility)) {
+		const result = analyzeImgHeuristic(node.src, node.content);
+		if (result.confident) edits.push(...computeImgEdits(node, result.suggestion, dialect));
+	}
+	return applyTextEdits(text, edits);
+}
+
+function formatFinding(
+	file: string,
+	finding: A11yFinding,
+	positionAt: ReturnType<typeof createPositionResolver>
+): string {
+	const pos = positionAt(finding.start);
+	return `${file}:${pos.line + 1}:${pos.character + 1}: warning: ${finding.message} [${finding.rule}]`;
+}
+
+/**
+ * Versão do pacote, lida do package.json ao lado de dist/ (quando disponível)
+ */
+function readToolVersion(): string | undefined {
+	try {
+		const pkg = JSON.parse(fs.readFileSync(path.join(__dirname, '..', 'package.json'), 'utf-8'));
+		return typeof pkg.version === 'string' ? pkg.version : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Serializa o relatório no formato pedido
+ */
+function renderReport(entries: ReportEntry[], format: OutputFormat, cwd: string): string {
+	const options = { toolVersion: readToolVersion(), rootUri: pathToFileURL(cwd + path.sep).href };
+	const report = format === 'sarif' ? buildSarifReport(entries, options) : buildJsonReport(entries, options);
+	return JSON.stringify(report, null, 2) + '\n';
+}
+
+export function main(argv: string[], cwd = process.cwd()): number {
+	let opts: CliOptions;
+	let files: string[];
+	try {
+		opts = parseArgs(argv);
+		if (opts.help) {
+			console.log(HELP);
+			return EXIT_OK;
+		}
+		files = collectFiles(opts, cwd);
+	} catch (err) {
+		if (err instanceof UsageError) {
+			console.error(`svg-a11y-assist: ${err.message}\n\n${HELP}`);
+			return EXIT_USAGE;
+		}
+		throw err;
+	}
+
+	let total = 0;
+	let filesWithIssues = 0;
+	let fixedFiles = 0;
+	const entries: ReportEntry[] = [];
+	const lines: string[] = [];
+	// Em json/sarif a saída padrão fica reservada ao relatório
+	const log = (message: string) =>
+		opts.format === 'text' || opts.output ? console.log(message) : console.error(message);
+
+	for (const file of files) {
+		const languageId = languageIdForPath(file);
+		if (!languageId) continue;
+		const abs = path.resolve(cwd, file);
+		let text = fs.readFileSync(abs, 'utf-8');
+
+		if (opts.fix && scanText(text, dialectForLanguage(languageId)).length) {
+			const fixed = fixText(text, languageId);
+			if (fixed !== text) {
+				fs.writeFileSync(abs, fixed, 'utf-8');
+				text = fixed;
+				fixedFiles++;
+			}
+		}
+
+		const findings = scanText(text, dialectForLanguage(languageId));
+		if (!findings.length) continue;
+		filesWithIssues++;
+		total += findings.length;
+		if (opts.format === 'text') {
+			const positionAt = createPositionResolver(text);
+			for (const finding of findings) {
+				lines.push(formatFinding(file, finding, positionAt));
+			}
+		} else {
+			entries.push(...toReportEntries(file, text, findings));
+		}
+	}
+
+	const output = opts.format === 'text' ? lines.map((l) => l + '\n').join('') : renderReport(entries, opts.format, cwd);
+	if (opts.output) {
+		fs.writeFileSync(path.resolve(cwd, opts.output), output, 'utf-8');
+	} else {
+		process.stdout.write(output);
+	}
+
+	if (opts.fix && fixedFiles) {
+		log(`${fixedFiles} arquivo(s) corrigido(s) com a heurística local. Revise os textos gerados.`);
+	}
+	if (opts.output) {
+		log(`Relatório gravado em ${opts.output}.`);
+	}
+	if (total) {
+		log(`\n${total} problema(s) em ${filesWithIssues} de ${files.length} arquivo(s).`);
+		if (opts.fix) {
+			log('Os elementos restantes não têm indício suficiente para a heurística: descreva-os manualmente ou use a IA na extensão.');
+		}
+		return EXIT_VIOLATIONS;
+	}
+	log(`Nenhum problema em ${files.length} arquivo(s).`);
+	return EXIT_OK;
+}
+
+if (require.main === module) {
+	process.exitCode = main(process.argv.slice(2));
+}
@@ -0,0 +1,118 @@
+import {
+	findSvgNodes,
+	needsAccessibility,
+	findImgNodes,
+	imgNeedsAccessibility,
+	MarkupDialect
+} from './svgParser';
+
+export const DIAGNOSTIC_CODE_SVG = 'svg-missing-a11y';
+export const DIAGNOSTIC_CODE_IMG = 'img-missing-alt';
+
+export type A11yRuleId = typeof DIAGNOSTIC_CODE_SVG | typeof DIAGNOSTIC_CODE_IMG;
+
+/**
+ * Falha de acessibilidade encontrada no texto (offsets absolutos)
+ */
+export interface A11yFinding {
+	rule: A11yRuleId;
+	kind: 'svg' | 'img';
+	start: number; // início do elemento
+	end: number;   // fim da tag de abertura (range destacado no editor)
+	message: string;
+}
+
+const MESSAGES: Record<A11yRuleId, string> = {
+	[DIAGNOSTIC_CODE_SVG]: 'SVG sem <title>/<desc> ou aria-hidden: potencial falha de acessibilidade.',
+	[DIAGNOSTIC_CODE_IMG]: 'Imagem sem atributo alt: violação WCAG 1.1.1 (Conteúdo Não-textual).'
+};
+
+/** Extensões de arquivo analisadas fora do editor e seus languageIds */
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+	'.html': 'html',
+	'.htm': 'html',
+	'.jsx': 'javascriptreact',
+	'.tsx': 'typescriptreact'
+};
+
+export const SUPPORTED_LANGUAGES = ['html', 'javascriptreact', 'typescriptreact'];
+
+/**
+ * Retorna o languageId correspondente à extensão do arquivo (ou undefined se não suportado)
+ */
+export function languageIdForPath(filePath: string): string | undefined {
+	const dot = filePath.lastIndexOf('.');
+	if (dot === -1) return undefined;
+	return LANGUAGE_BY_EXTENSION[filePath.slice(dot).toLowerCase()];
+}
+
+/**
+ * Glob com todas as extensões suportadas (ex: para workspace.findFiles)
+ */
+export function supportedFilesGlob(): string {
+	const exts = Object.keys(LANGUAGE_BY_EXTENSION).map((e) => e.slice(1));
+	return `**/*.{${exts.join(',')}}`;
+}
+
+/**
+ * Aplica as regras de acessibilidade de SVG e IMG ao texto
+ */
+export function scanText(text: string, dialect: MarkupDialect): A11yFinding[] {
+	const findings: A11yFinding[] = [];
+
+	for (const n of findSvgNodes(text, dialect)) {
+		if (needsAccessibility(n)) {
+			findings.push({
+				rule: DIAGNOSTIC_CODE_SVG,
+				kind: 'svg',
+				start: n.start,
+				end: n.tagOpenRange.end,
+				message: MESSAGES[DIAGNOSTIC_CODE_SVG]
+			});
+		}
+	}
+
+	for (const n of findImgNodes(text, dialect)) {
+		if (imgNeedsAccessibility(n)) {
+			findings.push({
+				rule: DIAGNOSTIC_CODE_IMG,
+				kind: 'img',
+				start: n.start,
+				end: n.end,
+				message: MESSAGES[DIAGNOSTIC_CODE_IMG]
+			});
+		}
+	}
+
+	return findings.sort((a, b) => a.start - b.start);
+}
+
+// =====================================================
+// Conversão de offsets para linha/coluna
+// =====================================================
+
+export interface TextPosition {
+	line: number;      // base 0
+	character: number; // base 0
+}
+
+/**
+ * Cria uma função que converte offsets em posições (linha/coluna, base 0)
+ * sem depender de um TextDocument aberto
+ */
+export function createPositionResolver(text: string): (offset: number) => TextPosition {
+	const lineStarts = [0];
+	for (let i = 0; i < text.length; i++) {
+		if (text[i] === '\n') lineStarts.push(i + 1);
+	}
+	return (offset: number) => {
+		let lo = 0;
+		let hi = lineStarts.length - 1;
+		while (lo < hi) {
+			const mid = (lo + hi + 1) >> 1;
+			if (lineStarts[mid] <= offset) lo = mid;
+			else hi = mid - 1;
+		}
+		return { line: lo, character: offset - lineStarts[lo] };
+	};
+}
@@ -0,0 +1,163 @@
+import { ProviderAdapter, ProviderConfig, ProviderImage } from './providers';
+import { RequestOptions, RequestTimeoutError, fetchWithRetry, isCancellation } from './http';
+import { redactHeaders, redactSecrets } from './redact';
+
+/**
+ * Teste de conexão com o provedor de IA
+ * Envia um pedido mínimo de texto e outro de visão, mede a latência e
+ * classifica os erros (autenticação, modelo inexistente, imagem recusada...).
+ */
+
+export type ConnectionErrorKind =
+	| 'auth'
+	| 'model-not-found'
+	| 'rate-limit'
+	| 'rejected'
+	| 'server'
+	| 'timeout'
+	| 'network'
+	| 'invalid-response';
+
+export interface ProbeResult {
+	probe: 'text' | 'vision';
+	ok: boolean;
+	/** Não executado (ex: visão após falha no teste de texto) */
+	skipped?: boolean;
+	latencyMs?: number;
+	status?: number;
+	/** Início da resposta do modelo */
+	reply?: string;
+	error?: { kind: ConnectionErrorKind; message: string };
+}
+
+/**
+ * Requisição e resposta completas de um teste (segredos já removidos)
+ */
+export interface ConnectionExchange {
+	probe: 'text' | 'vision';
+	request: { url: string; headers: Record<string, string>; body: string };
+	response?: { status: number; body: string };
+	error?: string;
+}
+
+export interface ConnectionTestReport {
+	providerId: string;
+	providerLabel: string;
+	model?: string;
+	endpoint: string;
+	text: ProbeResult;
+	vision: ProbeResult;
+}
+
+/** PNG 16x16 vermelho: o menor pedido de visão que ainda exige ler a imagem */
+const PROBE_IMAGE: ProviderImage = {
+	kind: 'base64',
+	mimeType: 'image/png',
+	data: 'iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAF0lEQVR4nGP4z8BAEiJN9aiGUQ1DSgMAkPn/Afnh+ngAAAAASUVORK5CYII='
+};
+
+const TEXT_PROBE_PROMPT = 'Responda apenas com a palavra OK.';
+const VISION_PROBE_PROMPT = 'Qual é a cor desta imagem? Responda com uma única palavra.';
+const PROBE_MAX_TOKENS = 16;
+
+/**
+ * Classifica uma resposta HTTP de erro
+ */
+export function classifyHttpError(status: number, body: string): ConnectionErrorKind {
+	if (status === 401 || status === 403) return 'auth';
+	if (status === 429) return 'rate-limit';
+	if (status >= 500) return 'server';
+	// Alguns provedores respondem 400 para modelo inexistente
+	if (status === 404 || /model[^.]*(not[ _]found|does not exist|not exist|unknown|invalid)/i.test(body)) {
+		return 'model-not-found';
+	}
+	return 'rejected';
+}
+
+/**
+ * Executa os testes de texto e visão com o adaptador e a configuração informados
+ * @param onExchange - Recebe cada requisição/resposta (com segredos removidos)
+ */
+export async function runConnectionTest(
+	adapter: ProviderAdapter,
+	config: ProviderConfig,
+	request: RequestOptions,
+	onExchange?: (exchange: ConnectionExchange) => void
+): Promise<ConnectionTestReport> {
+	const probe = (kind: 'text' | 'vision') =>
+		runProbe(adapter, config, request, kind, onExchange);
+
+	const text = await probe('text');
+	// Sem texto funcionando (chave, endpoint, modelo), o teste de visão só repetiria o erro
+	const vision = text.ok ? await probe('vision') : { probe: 'vision' as const, ok: false, skipped: true };
+
+	return {
+		providerId: adapter.id,
+		providerLabel: adapter.label,
+		model: config.model || undefined,
+		endpoint: redactSecrets(config.endpoint, [config.apiKey]),
+		text,
+		vision
+	};
+}
+
+async function runProbe(
+	adapter: ProviderAdapter,
+	config: ProviderConfig,
+	request: RequestOptions,
+	probe: 'text' | 'vision',
+	onExchange?: (exchange: ConnectionExchange) => void
+): Promise<ProbeResult> {
+	const body = JSON.stringify(
+		adapter.buildRequestBody(
+			probe === 'text'
+				? { prompt: TEXT_PROBE_PROMPT, maxTokens: PROBE_MAX_TOKENS }
+				: { prompt: VISION_PROBE_PROMPT, image: PROBE_IMAGE, maxTokens: PROBE_MAX_TOKENS },
+			config
+		)
+	);
+	const headers = adapter.buildHeaders(config);
+	const redact = (text: string) => redactSecrets(text, [config.apiKey]);
+	const exchange: ConnectionExchange = {
+		probe,
+		request: { url: redact(config.endpoint), headers: redactHeaders(headers), body: redact(body) }
+	};
+
+	const started = Date.now();
+	const fail = (kind: ConnectionErrorKind, message: string, status?: number): ProbeResult => ({
+		probe,
+		ok: false,
+		latencyMs: Date.now() - started,
+		status,
+		error: { kind, message: redact(message) }
+	});
+
+	try {
+		// Sem novas tentativas: o teste deve mostrar o primeiro erro
+		const resp = await fetchWithRetry(config.endpoint, { method: 'POST', headers, body }, { ...request, maxRetries: 0 });
+		const text = await resp.text();
+		const latencyMs = Date.now() - started;
+		exchange.response = { status: resp.status, body: redact(text) };
+
+		if (!resp.ok) {
+			return fail(classifyHttpError(resp.status, text), adapter.mapError(resp.status, text).message, resp.status);
+		}
+
+		let reply: string;
+		try {
+			reply = adapter.parseResponse(JSON.parse(text)).trim();
+		} catch (err) {
+			return fail('invalid-response', (err as Error).message, resp.status);
+		}
+		if (!reply) {
+			return fail('invalid-response', 'Resposta sem texto', resp.status);
+		}
+		return { probe, ok: true, latencyMs, status: resp.status, reply: reply.slice(0, 80) };
+	} catch (err) {
+		if (isCancellation(err)) throw err;
+		exchange.error = redact((err as Error).message);
+		return fail(err instanceof RequestTimeoutError ? 'timeout' : 'network', (err as Error).message);
+	} finally {
+		onExchange?.(exchange);
+	}
+}
@@ -0,0 +1,181 @@
+import { MarkupElement, getAttribute } from './svgParser';
+
+/**
+ * Contexto do elemento no documento
+ * O mesmo ícone pode ser funcional (dentro de um link/botão), decorativo (ao lado
+ * de um texto visível que já diz o mesmo) ou informativo. Estes campos são
+ * enviados ao modelo junto com o elemento.
+ */
+export interface ElementContext {
+	/** Link ou botão que contém o elemento */
+	control?: {
+		role: 'link' | 'button';
+		/** Tag como escrita (ex: a, button, Link, IconButton) */
+		tag: string;
+		/** Texto visível do controle, sem o próprio elemento */
+		text: string;
+		/** aria-label / title do controle */
+		label?: string;
+		href?: string;
+	};
+	/** Texto visível imediatamente antes e depois do elemento */
+	adjacentText?: { before: string; after: string };
+	/** <figcaption> da <figure> que contém o elemento */
+	figcaption?: string;
+	/** Texto do <label> que contém o elemento */
+	label?: string;
+	/** Título (h1-h6) mais próximo antes do elemento */
+	heading?: string;
+	/** Idioma declarado (lang do ancestral mais próximo ou de <html>) */
+	lang?: string;
+}
+
+/** Tamanho máximo de cada trecho de texto enviado ao modelo */
+const MAX_TEXT = 160;
+
+/** Conteúdo que não é texto visível */
+const NON_TEXT_ELEMENTS = new Set(['script', 'style', 'svg', 'template', 'noscript']);
+
+/** Marca a posição do elemento dentro do texto do pai */
+const ELEMENT_MARKER = '\u0000';
+
+/**
+ * Extrai o contexto de `element` a partir do texto completo do documento
+ */
+export function extractElementContext(source: string, element: MarkupElement): ElementContext {
+	const context: ElementContext = {};
+
+	for (let p = element.parent; p; p = p.parent) {
+		const role = controlRole(p);
+		if (role && !context.control) {
+			const label = getAttribute(p, 'aria-label')?.value || getAttribute(p, 'title')?.value;
+			const href = role === 'link' ? getAttribute(p, 'href')?.value ?? undefined : undefined;
+			context.control = {
+				role,
+				tag: p.name,
+				text: truncate(visibleText(source, p, element).replace(ELEMENT_MARKER, ' ')),
+				...(label ? { label: truncate(label) } : {}),
+				...(href ? { href } : {})
+			};
+		}
+		if (p.localName.toLowerCase() === 'figure' && context.figcaption === undefined) {
+			const caption = p.children.find((c) => c.localName.toLowerCase() === 'figcaption');
+			const text = caption && truncate(visibleText(source, caption));
+			if (text) context.figcaption = text;
+		}
+		if (p.localName.toLowerCase() === 'label' && context.label === undefined) {
+			const text = truncate(visibleText(source, p, element).replace(ELEMENT_MARKER, ' '));
+			if (text) context.label = text;
+		}
+		const lang = getAttribute(p, 'lang')?.value;
+		if (lang && !context.lang) context.lang = lang;
+	}
+
+	// Texto ao redor: no pai direto, a menos que ele já seja o link/botão, o <label> ou a <figure>
+	const parent = element.parent;
+	if (parent && !controlRole(parent) && !['label', 'figure'].includes(parent.localName.toLowerCase())) {
+		const [before = '', after = ''] = visibleText(source, parent, element).split(ELEMENT_MARKER);
+		const adjacent = { before: truncate(before, true), after: truncate(after) };
+		if (adjacent.before || adjacent.after) context.adjacentText = adjacent;
+	}
+
+	const heading = precedingHeading(source, element.start);
+	if (heading) context.heading = heading;
+
+	if (!context.lang) {
+		const htmlLang = /<html\b[^>]*?\slang\s*=\s*["']([^"']+)["']/i.exec(source)?.[1];
+		if (htmlLang) context.lang = htmlLang;
+	}
+	return context;
+}
+
+/**
+ * O contexto tem algum campo preenchido?
+ */
+export function hasElementContext(context: ElementContext | undefined): context is ElementContext {
+	return !!context && Object.keys(context).length > 0;
+}
+
+/**
+ * Forma resumida do contexto para a chave do cache: só o que muda a natureza da
+ * resposta (dentro de link/botão com ou sem nome, texto ao lado, legenda, <label>).
+ * Textos exatos ficam de fora: o mesmo ícone em outra página reaproveita a sugestão.
+ */
+export function contextCacheKey(context: ElementContext | undefined): string {
+	if (!hasElementContext(context)) return '';
+	const { control } = context;
+	return [
+		control ? `${control.role}:${control.text || control.label ? 'nomeado' : 'sem-nome'}` : '',
+		context.adjacentText ? 'texto-adjacente' : '',
+		context.figcaption ? 'legenda' : '',
+		context.label ? 'label' : ''
+	].join('|');
+}
+
+function controlRole(el: MarkupElement): 'link' | 'button' | undefined {
+	const role = getAttribute(el, 'role')?.value?.trim().toLowerCase();
+	if (role === 'link' || role === 'button') return role;
+	const name = el.localName.toLowerCase();
+	// Componentes JSX comuns: <Link>, <NavLink>, <Button>, <IconButton>...
+	if (name === 'a' || name.endsWith('link')) return 'link';
+	if (name === 'button' || name.endsWith('button')) return 'button';
+	return undefined;
+}
+
+/**
+ * Texto visível de `el` (sem tags, comentários e conteúdo não textual).
+ * `exclude` é substituído por ELEMENT_MARKER.
+ */
+function visibleText(source: string, el: MarkupElement, exclude?: MarkupElement): string {
+	return normalizeText(collectText(source, el, exclude));
+}
+
+function collectText(source: string, el: MarkupElement, exclude?: MarkupElement): string {
+	if (el === exclude) return ELEMENT_MARKER;
+	if (NON_TEXT_ELEMENTS.has(el.localName.toLowerCase()) || !el.closeTag) return ' ';
+	let text = '';
+	let pos = el.openTag.end;
+	for (const child of el.children) {
+		text += source.slice(pos, child.start) + ' ' + collectText(source, child, exclude) + ' ';
+		pos = child.end;
+	}
+	return text + source.slice(pos, el.closeTag.start);
+}
+
+function normalizeText(text: string): string {
+	return text
+		.replace(/<!--[\s\S]*?-->/g, ' ')
+		.replace(/\{\/\*[\s\S]*?\*\/\}/g, ' ')
+		// JSX: {'texto'} vira texto; outras expressões {valor} são dinâmicas
+		.replace(/\{\s*(['"`])([^'"`{}]*)\1\s*\}/g, '$2')
+		.replace(/\{[^{}]*\}/g, ' ')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&amp;/g, '&')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Limita o texto a MAX_TEXT caracteres; `keepEnd` preserva o final
+ * (texto antes do elemento, onde o trecho mais próximo importa)
+ */
+function truncate(text: string, keepEnd = false): string {
+	const trimmed = text.trim();
+	if (trimmed.length <= MAX_TEXT) return trimmed;
+	return keepEnd
+		? '…' + trimmed.slice(-MAX_TEXT).trimStart()
+		: trimmed.slice(0, MAX_TEXT).trimEnd() + '…';
+}
+
+function precedingHeading(source: string, offset: number): string | undefined {
+	let last: string | undefined;
+	for (const match of source.slice(0, offset).matchAll(/<(h[1-6])\b[^>]*>([\s\S]*?)<\/\1\s*>/gi)) {
+		last = match[2];
+	}
+	if (last === undefined) return undefined;
+	return truncate(normalizeText(last.replace(/<[^>]*>/g, ' '))) || undefined;
+}
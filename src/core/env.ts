@@ -0,0 +1,109 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { IAClientOptions } from './iaClient';
+import type { AIProviderSetting } from './providers';
+import { log } from './logger';
+
+/**
+ * Interpreta o conteúdo de um arquivo .env (KEY=valor, comentários com #)
+ */
+export function parseEnv(envContent: string): Record<string, string> {
+	const envVars: Record<string, string> = {};
+	const lines = envContent.split('\n');
+
+	for (const line of lines) {
+		const trimmed = line.trim();
+		// Ignorar comentários e linhas vazias
+		if (!trimmed || trimmed.startsWith('#')) continue;
+
+		const eqIndex = trimmed.indexOf('=');
+		if (eqIndex > 0) {
+			const key = trimmed.substring(0, eqIndex).trim();
+			let value = trimmed.substring(eqIndex + 1).trim();
+			// Remover aspas se presentes
+			if ((value.startsWith('"') && value.endsWith('"')) ||
+			    (value.startsWith("'") && value.endsWith("'"))) {
+				value = value.slice(1, -1);
+			}
+			envVars[key] = value;
+			// Somente o nome: valores podem conter chaves e tokens
+			log.debug(`Variável carregada do .env: ${key}`);
+		}
+	}
+	return envVars;
+}
+
+/**
+ * Carrega configurações de um arquivo .env na raiz informada
+ */
+export function loadEnvConfig(workspaceRoot: string | undefined): Record<string, string> {
+	if (!workspaceRoot) {
+		log.debug('Nenhum workspace folder encontrado');
+		return {};
+	}
+
+	try {
+		const envPath = path.join(workspaceRoot, '.env');
+		log.debug(`Procurando .env em: ${envPath}`);
+
+		if (fs.existsSync(envPath)) {
+			const envContent = fs.readFileSync(envPath, 'utf-8');
+			const envVars = parseEnv(envContent);
+			log.info(`.env carregado: ${Object.keys(envVars).length} variáveis`);
+			return envVars;
+		}
+		log.debug(`Arquivo .env não encontrado em: ${envPath}`);
+	} catch (err) {
+		log.warn(`Erro ao carregar .env: ${(err as Error).message}`);
+	}
+
+	return {};
+}
+
+/**
+ * Combina as fontes de configuração do cliente de IA
+ * Prioridade: configurações explícitas (ex: VS Code settings) > .env > variáveis de ambiente do sistema
+ */
+export function resolveIAClientOptions(
+	settings: IAClientOptions,
+	envConfig: Record<string, string>,
+	processEnv: NodeJS.ProcessEnv = process.env
+): IAClientOptions {
+	const apiKey = settings.apiKey
+		|| envConfig['SVG_A11Y_API_KEY']
+		|| envConfig['OPENAI_API_KEY']
+		|| envConfig['ANTHROPIC_API_KEY']
+		|| envConfig['GOOGLE_API_KEY']
+		|| processEnv.SVG_A11Y_API_KEY
+		|| '';
+
+	const endpoint = settings.endpoint
+		|| envConfig['SVG_A11Y_ENDPOINT']
+		|| envConfig['OPENAI_ENDPOINT']
+		|| '';
+
+	const model = settings.model
+		|| envConfig['SVG_A11Y_MODEL']
+		|| '';
+
+	// Prioridade: settings > .env > false
+	const envUseVision = envConfig['SVG_A11Y_USE_VISION'] === 'true';
+	const useVision = settings.useVision !== undefined ? settings.useVision : envUseVision;
+
+	// "auto" nas configurações do VS Code cede ao .env
+	const envProvider = envConfig['SVG_A11Y_PROVIDER'] as AIProviderSetting | undefined;
+	const provider = settings.provider && settings.provider !== 'auto'
+		? settings.provider
+		: envProvider || settings.provider || 'auto';
+
+	return {
+		apiKey,
+		endpoint,
+		model,
+		useVision,
+		render: settings.render,
+		provider,
+		timeoutMs: settings.timeoutMs,
+		maxRetries: settings.maxRetries
+	};
+}
@@ -0,0 +1,139 @@
+/**
+ * Matcher simplificado de .gitignore
+ * Suporta negação (!), padrões ancorados (/), somente diretórios (/ final),
+ * curingas *, ? e ** e arquivos .gitignore aninhados.
+ */
+
+interface IgnoreRule {
+	baseDir: string; // diretório do .gitignore relativo à raiz ('' para a raiz)
+	regex: RegExp;
+	negated: boolean;
+	dirOnly: boolean;
+}
+
+/**
+ * Converte um glob para RegExp (caminhos POSIX).
+ * `**` atravessa diretórios; `*` e `?` não atravessam `/`.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let re = '';
+	let i = 0;
+	while (i < glob.length) {
+		const ch = glob[i];
+		if (ch === '*') {
+			if (glob[i + 1] === '*') {
+				// "**/" → zero ou mais diretórios; "**" isolado → qualquer coisa
+				if (glob[i + 2] === '/') {
+					re += '(?:.*/)?';
+					i += 3;
+				} else {
+					re += '.*';
+					i += 2;
+				}
+				continue;
+			}
+			re += '[^/]*';
+		} else if (ch === '?') {
+			re += '[^/]';
+		} else if (ch === '[') {
+			const close = glob.indexOf(']', i + 1);
+			if (close === -1) {
+				re += '\\[';
+			} else {
+				const cls = glob.slice(i + 1, close).replace(/^!/, '^').replace(/\\/g, '\\\\');
+				re += `[${cls}]`;
+				i = close;
+			}
+		} else if (ch === '{') {
+			const close = glob.indexOf('}', i + 1);
+			if (close === -1) {
+				re += '\\{';
+			} else {
+				const options = glob.slice(i + 1, close).split(',').map((o) => globToRegExp(o).source.slice(1, -1));
+				re += `(?:${options.join('|')})`;
+				i = close;
+			}
+		} else if (ch === '\\' && i + 1 < glob.length) {
+			re += escapeRegExp(glob[i + 1]);
+			i++;
+		} else {
+			re += escapeRegExp(ch);
+		}
+		i++;
+	}
+	return new RegExp(`^${re}$`);
+}
+
+function escapeRegExp(str: string): string {
+	return str.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
+
+export class GitignoreMatcher {
+	private readonly rules: IgnoreRule[] = [];
+
+	/**
+	 * Adiciona as regras de um arquivo .gitignore
+	 * @param baseDir - diretório do .gitignore relativo à raiz ('' para a raiz)
+	 * @param content - conteúdo do arquivo
+	 */
+	add(baseDir: string, content: string): void {
+		const base = baseDir.replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+		for (const rawLine of content.split(/\r?\n/)) {
+			let line = rawLine.replace(/(?<!\\)\s+$/, '');
+			if (!line || line.startsWith('#')) continue;
+
+			let negated = false;
+			if (line.startsWith('!')) {
+				negated = true;
+				line = line.slice(1);
+			} else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+				line = line.slice(1);
+			}
+
+			let dirOnly = false;
+			if (line.endsWith('/')) {
+				dirOnly = true;
+				line = line.slice(0, -1);
+			}
+			if (!line) continue;
+
+			// Padrões com "/" no início ou no meio são relativos ao diretório do .gitignore
+			const anchored = line.includes('/');
+			line = line.replace(/^\//, '');
+			const pattern = anchored ? line : `**/${line}`;
+
+			this.rules.push({ baseDir: base, regex: globToRegExp(pattern), negated, dirOnly });
+		}
+	}
+
+	/**
+	 * Verifica se o caminho (relativo à raiz, POSIX) é ignorado.
+	 * Um arquivo dentro de um diretório ignorado também é ignorado.
+	 */
+	ignores(relPath: string): boolean {
+		const segments = relPath.replace(/\\/g, '/').replace(/^\/+/, '').split('/');
+		let prefix = '';
+		for (let k = 0; k < segments.length; k++) {
+			prefix = prefix ? `${prefix}/${segments[k]}` : segments[k];
+			const isDir = k < segments.length - 1;
+			if (this.matches(prefix, isDir)) return true;
+		}
+		return false;
+	}
+
+	private matches(path: string, isDir: boolean): boolean {
+		let ignored = false;
+		for (const rule of this.rules) {
+			if (rule.dirOnly && !isDir) continue;
+			let candidate = path;
+			if (rule.baseDir) {
+				if (!path.startsWith(rule.baseDir + '/')) continue;
+				candidate = path.slice(rule.baseDir.length + 1);
+			}
+			if (rule.regex.test(candidate)) {
+				ignored = !rule.negated;
+			}
+		}
+		return ignored;
+	}
+}
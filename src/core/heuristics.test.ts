@@ -0,0 +1,27 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { analyzeImgHeuristic, analyzeSvgHeuristic } from './heuristics';
+
+test('img: marcador de revisão manual não é confiável', () => {
+	const result = analyzeImgHeuristic('x.png', '<img src="x.png">');
+	assert.equal(result.suggestion.titleText, '[Descrição da imagem]');
+	assert.equal(result.confident, false);
+});
+
+test('img: nome de arquivo genérico e logo sem marca não são confiáveis', () => {
+	assert.equal(analyzeImgHeuristic('foto-equipe.jpg', '<img src="foto-equipe.jpg">').confident, false);
+	assert.equal(analyzeImgHeuristic('logo.png', '<img src="logo.png">').confident, false);
+});
+
+test('img: decorativa e logo com marca são confiáveis', () => {
+	const spacer = analyzeImgHeuristic('spacer.gif', '<img src="spacer.gif">');
+	assert.equal(spacer.confident, true);
+	assert.equal(spacer.suggestion.isDecorative, true);
+	assert.equal(analyzeImgHeuristic('logo-acme.png', '<img src="logo-acme.png">').confident, true);
+});
+
+test('svg: forma simples sem indícios vira palpite de decorativa, não correção', () => {
+	const result = analyzeSvgHeuristic('<svg viewBox="0 0 10 10"><circle cx="5" cy="5" r="4"/></svg>');
+	assert.equal(result.suggestion.isDecorative, true);
+	assert.equal(result.confident, false);
+});
@@ -0,0 +1,507 @@
+/**
+ * Heurísticas locais para sugestão de acessibilidade (sem IA)
+ * Usadas quando nenhuma API está configurada e como fallback em caso de erro
+ */
+
+import type { IAResponseSuggestion } from './iaClient';
+
+/**
+ * Sugestão heurística e se ela se baseia em um indício concreto (padrão de
+ * decorativa ou ícone no nome do arquivo, texto do logo...). Sem indício, o
+ * texto é um palpite genérico ou um marcador que exige revisão manual.
+ */
+export interface HeuristicResult {
+	suggestion: IAResponseSuggestion;
+	confident: boolean;
+}
+
+const sure = (suggestion: IAResponseSuggestion): HeuristicResult => ({ suggestion, confident: true });
+const guess = (suggestion: IAResponseSuggestion): HeuristicResult => ({ suggestion, confident: false });
+
+/**
+ * Heurística para sugerir alt baseado no nome do arquivo e contexto
+ */
+export function suggestImgHeuristic(imgSrc: string, imgTag: string): IAResponseSuggestion {
+	return analyzeImgHeuristic(imgSrc, imgTag).suggestion;
+}
+
+/**
+ * Heurística de <img> com a confiança do resultado (ver HeuristicResult)
+ */
+export function analyzeImgHeuristic(imgSrc: string, imgTag: string): HeuristicResult {
+	const lower = imgTag.toLowerCase();
+	const srcLower = imgSrc.toLowerCase();
+	
+	// Extrair nome do arquivo
+	const fileName = imgSrc.split('/').pop()?.split('?')[0] || '';
+	const fileNameNoExt = fileName.replace(/\.[^.]+$/, '').replace(/[-_]/g, ' ');
+	
+	// =====================================================
+	// FASE 1: Detectar imagens decorativas
+	// =====================================================
+	
+	// Padrões comuns de imagens decorativas
+	const decorativePatterns = [
+		/decorativ[eo]/i,
+		/spacer/i,
+		/blank/i,
+		/pixel/i,
+		/transparent/i,
+		/bg[-_]?image/i,
+		/background/i,
+		/divider/i,
+		/separator/i,
+		/border/i,
+		/shadow/i,
+		/gradient/i,
+		/pattern/i,
+		/texture/i,
+		/1x1/i,
+		/placeholder/i
+	];
+	
+	for (const pattern of decorativePatterns) {
+		if (pattern.test(srcLower) || pattern.test(lower)) {
+			return sure({ isDecorative: true, titleText: '', descText: '' });
+		}
+	}
+
+	// =====================================================
+	// FASE 2: Detectar ícones
+	// =====================================================
+	
+	const iconPatterns: Array<{ pattern: RegExp; title: string }> = [
+		{ pattern: /icon[-_]?search|search[-_]?icon|lupa|magnif/i, title: 'Pesquisar' },
+		{ pattern: /icon[-_]?menu|menu[-_]?icon|hamburger/i, title: 'Menu' },
+		{ pattern: /icon[-_]?close|close[-_]?icon|x[-_]?icon/i, title: 'Fechar' },
+		{ pattern: /icon[-_]?home|home[-_]?icon|casa/i, title: 'Página inicial' },
+		{ pattern: /icon[-_]?user|user[-_]?icon|avatar|profile/i, title: 'Perfil do usuário' },
+		{ pattern: /icon[-_]?cart|cart[-_]?icon|carrinho|shopping/i, title: 'Carrinho de compras' },
+		{ pattern: /icon[-_]?heart|heart[-_]?icon|favorit/i, title: 'Favoritos' },
+		{ pattern: /icon[-_]?star|star[-_]?icon|estrela/i, title: 'Avaliação' },
+		{ pattern: /icon[-_]?settings|settings[-_]?icon|config|gear|engrenagem/i, title: 'Configurações' },
+		{ pattern: /icon[-_]?bell|bell[-_]?icon|notif|sino/i, title: 'Notificações' },
+		{ pattern: /icon[-_]?mail|mail[-_]?icon|email|envelope/i, title: 'Email' },
+		{ pattern: /icon[-_]?phone|phone[-_]?icon|telefone|call/i, title: 'Telefone' },
+		{ pattern: /icon[-_]?download/i, title: 'Baixar' },
+		{ pattern: /icon[-_]?upload/i, title: 'Enviar arquivo' },
+		{ pattern: /icon[-_]?edit|edit[-_]?icon|pencil|lápis/i, title: 'Editar' },
+		{ pattern: /icon[-_]?delete|delete[-_]?icon|trash|lixo/i, title: 'Excluir' },
+		{ pattern: /icon[-_]?add|add[-_]?icon|plus|\+/i, title: 'Adicionar' },
+		{ pattern: /icon[-_]?check|check[-_]?icon|tick/i, title: 'Confirmar' },
+		{ pattern: /icon[-_]?arrow[-_]?left|prev|anterior/i, title: 'Anterior' },
+		{ pattern: /icon[-_]?arrow[-_]?right|next|próximo/i, title: 'Próximo' },
+		{ pattern: /icon[-_]?play/i, title: 'Reproduzir' },
+		{ pattern: /icon[-_]?pause/i, title: 'Pausar' },
+		{ pattern: /icon[-_]?share|compartilhar/i, title: 'Compartilhar' },
+		{ pattern: /icon[-_]?link/i, title: 'Copiar link' },
+		{ pattern: /icon[-_]?copy|copiar/i, title: 'Copiar' },
+		{ pattern: /icon[-_]?save|salvar/i, title: 'Salvar' },
+		{ pattern: /icon[-_]?print|imprimir/i, title: 'Imprimir' },
+		{ pattern: /icon[-_]?location|pin|mapa/i, title: 'Localização' },
+		{ pattern: /icon[-_]?calendar|calendário/i, title: 'Calendário' },
+		{ pattern: /icon[-_]?clock|relógio|hora/i, title: 'Horário' },
+		{ pattern: /icon[-_]?lock|cadeado|seguro/i, title: 'Segurança' },
+		{ pattern: /icon[-_]?eye|visualizar|olho/i, title: 'Visualizar' },
+		{ pattern: /icon[-_]?info|informação/i, title: 'Informações' },
+		{ pattern: /icon[-_]?help|ajuda/i, title: 'Ajuda' },
+		{ pattern: /icon[-_]?chat|message|mensagem/i, title: 'Mensagens' },
+		{ pattern: /icon[-_]?logout|sair/i, title: 'Sair' },
+		{ pattern: /icon[-_]?login|entrar/i, title: 'Entrar' }
+	];
+
+	for (const { pattern, title } of iconPatterns) {
+		if (pattern.test(srcLower) || pattern.test(lower)) {
+			return sure({ isDecorative: false, titleText: title, descText: '' });
+		}
+	}
+
+	// =====================================================
+	// FASE 3: Detectar logos e marcas
+	// =====================================================
+	
+	const logoPatterns = [
+		/logo[-_]?/i,
+		/brand[-_]?/i,
+		/marca[-_]?/i,
+		/[-_]logo\./i,
+		/[-_]brand\./i
+	];
+	
+	for (const pattern of logoPatterns) {
+		if (pattern.test(srcLower)) {
+			// Extrair nome da marca do arquivo
+			const brandMatch = srcLower.match(/logo[-_]?([a-z0-9]+)/i) || 
+			                   srcLower.match(/([a-z0-9]+)[-_]?logo/i);
+			const brandName = brandMatch ? brandMatch[1].charAt(0).toUpperCase() + brandMatch[1].slice(1) : '';
+			return (brandName ? sure : guess)({
+				isDecorative: false, 
+				titleText: brandName ? `Logo ${brandName}` : 'Logo da empresa',
+				descText: '' 
+			});
+		}
+	}
+
+	// =====================================================
+	// FASE 4: Detectar tipos de imagem pelo nome
+	// =====================================================
+	
+	const contentPatterns: Array<{ pattern: RegExp; prefix: string }> = [
+		{ pattern: /banner[-_]?/i, prefix: 'Banner promocional' },
+		{ pattern: /hero[-_]?/i, prefix: 'Imagem principal' },
+		{ pattern: /product[-_]?|produto[-_]?/i, prefix: 'Produto' },
+		{ pattern: /team[-_]?|equipe[-_]?/i, prefix: 'Membro da equipe' },
+		{ pattern: /testimonial[-_]?|depoimento[-_]?/i, prefix: 'Depoimento de cliente' },
+		{ pattern: /gallery[-_]?|galeria[-_]?/i, prefix: 'Imagem da galeria' },
+		{ pattern: /slide[-_]?|carousel[-_]?/i, prefix: 'Slide' },
+		{ pattern: /thumbnail[-_]?|thumb[-_]?/i, prefix: 'Miniatura' },
+		{ pattern: /avatar[-_]?/i, prefix: 'Foto de perfil' },
+		{ pattern: /photo[-_]?|foto[-_]?/i, prefix: 'Fotografia' },
+		{ pattern: /chart[-_]?|graph[-_]?|gráfico[-_]?/i, prefix: 'Gráfico' },
+		{ pattern: /diagram[-_]?|diagrama[-_]?/i, prefix: 'Diagrama' },
+		{ pattern: /map[-_]?|mapa[-_]?/i, prefix: 'Mapa' },
+		{ pattern: /infographic[-_]?|infográfico[-_]?/i, prefix: 'Infográfico' }
+	];
+
+	for (const { pattern, prefix } of contentPatterns) {
+		if (pattern.test(srcLower)) {
+			const desc = fileNameNoExt.replace(pattern, '').trim();
+			return guess({
+				isDecorative: false, 
+				titleText: desc ? `${prefix}: ${desc}` : prefix,
+				descText: '' 
+			});
+		}
+	}
+
+	// =====================================================
+	// FASE 5: Fallback - usar nome do arquivo
+	// =====================================================
+	
+	if (fileNameNoExt && fileNameNoExt.length > 2) {
+		// Limpar e formatar o nome do arquivo
+		const cleanName = fileNameNoExt
+			.replace(/[0-9]+/g, ' ')  // remover números
+			.replace(/\s+/g, ' ')     // normalizar espaços
+			.trim();
+		
+		if (cleanName.length > 2) {
+			return guess({
+				isDecorative: false, 
+				titleText: cleanName.charAt(0).toUpperCase() + cleanName.slice(1),
+				descText: '' 
+			});
+		}
+	}
+
+	// Não foi possível determinar - retornar placeholder para revisão manual
+	return guess({
+		isDecorative: false, 
+		titleText: '[Descrição da imagem]',
+		descText: '' 
+	});
+}
+
+/**
+ * Heurística local para SVG (usada quando não há API configurada ou como fallback)
+ */
+export function suggestSvgHeuristic(svgCode: string): IAResponseSuggestion {
+	return analyzeSvgHeuristic(svgCode).suggestion;
+}
+
+/**
+ * Heurística de SVG com a confiança do resultado (ver HeuristicResult).
+ * Forma simples sem indícios é tratada como decorativa, mas é só um palpite.
+ */
+export function analyzeSvgHeuristic(svgCode: string): HeuristicResult {
+	const lower = svgCode.toLowerCase();
+	
+	// Detectar elementos que indicam conteúdo informativo
+	const hasText = /<text[\s>]/i.test(lower);
+	const hasMultipleShapes = (lower.match(/<(rect|circle|ellipse|polygon|path|line)\b/g) || []).length >= 3;
+	const looksLikeChart = hasMultipleShapes && /(axis|chart|bar|graph|data|legend)/i.test(lower);
+	const looksLikeIcon = /viewbox\s*=\s*["']?\s*0\s+0\s+(24|16|20|32|48)\s+(24|16|20|32|48)/i.test(svgCode);
+	const hasComplexPath = /<path[^>]+d\s*=\s*["'][^"']{100,}/i.test(svgCode);
+	const looksLikeLogo = hasText || (hasComplexPath && looksLikeIcon);
+	
+	// Detectar padrões comuns de ícones
+	const iconPatterns = [
+		/stroke-width|stroke-linecap|stroke-linejoin/i,
+		/fill="(none|currentColor)"/i,
+		/<circle[^>]+r\s*=\s*["']?\d/i,
+		/<line[^>]+/i,
+	];
+	const looksLikeActionIcon = iconPatterns.some(p => p.test(svgCode));
+	
+	// SVGs pequenos (até 48x48) com paths são geralmente ícones informativos
+	const isSmallIcon = looksLikeIcon && (hasComplexPath || looksLikeActionIcon);
+	
+	// Determinar se é decorativo
+	const isSimpleDecorativeShape = !hasText && !looksLikeChart && !isSmallIcon && !looksLikeLogo 
+		&& (lower.match(/<(rect|circle|ellipse)\b/g) || []).length <= 1
+		&& !hasComplexPath;
+	
+	if (isSimpleDecorativeShape) {
+		return guess({ isDecorative: true, titleText: '', descText: '' });
+	}
+	
+	// ========================================
+	// Identificação específica de ícones comuns
+	// ========================================
+	const iconIdentification = identifySpecificIcon(svgCode);
+	if (iconIdentification) {
+		return sure({ isDecorative: false, titleText: iconIdentification.title, descText: iconIdentification.desc });
+	}
+	
+	// Gerar título baseado no tipo detectado (fallback): genérico, exceto o texto do logo
+	let title = 'Elemento gráfico';
+	let desc = '';
+	let confident = false;
+	
+	if (looksLikeChart) {
+		title = 'Gráfico de dados';
+		desc = 'Gráfico ou diagrama com múltiplos elementos visuais representando dados.';
+	} else if (looksLikeLogo && hasText) {
+		// Extrair texto do logo se possível
+		const textMatch = svgCode.match(/<text[^>]*>([^<]+)<\/text>/i);
+		if (textMatch) {
+			title = `Logotipo ${textMatch[1].trim()}`;
+			confident = true;
+		} else {
+			title = 'Logotipo da empresa';
+		}
+	} else if (hasMultipleShapes) {
+		title = 'Ilustração';
+		desc = 'Imagem vetorial com múltiplos elementos gráficos.';
+	}
+	
+	return { suggestion: { isDecorative: false, titleText: title, descText: desc }, confident };
+}
+
+/**
+ * Identifica ícones específicos baseado em padrões visuais do SVG
+ * PRIORIDADE: Análise do path primeiro, depois estrutura, depois keywords
+ */
+function identifySpecificIcon(svgCode: string): { title: string; desc: string } | null {
+	// =====================================================
+	// FASE 1: Análise do path d="" para formas específicas
+	// =====================================================
+	const pathMatch = svgCode.match(/d\s*=\s*["']([^"']+)["']/i);
+	if (pathMatch) {
+		const pathData = pathMatch[1];
+		
+		// ❤️ Coração - path que contém "21.35" ou coordenadas típicas de coração
+		if (/21\.35/.test(pathData) || /8\.5.*5\.42/.test(pathData)) {
+			return { title: 'Adicionar aos favoritos', desc: '' };
+		}
+		
+		// ❤️ Coração alternativo - curvas bezier simétricas típicas de coração
+		// Path começa em M12 (centro) e tem múltiplas curvas C
+		if (/^M\s*12\s/.test(pathData) && /[Cc]/.test(pathData) && pathData.length > 100) {
+			// Verificar se tem padrão de coração (ponto final em 21.35 ou similar)
+			if (/21\.\d|l\s*-?\d+\.?\d*\s+-?\d+\.?\d*\s*[Cc]/i.test(pathData)) {
+				return { title: 'Adicionar aos favoritos', desc: '' };
+			}
+		}
+	}
+
+	// =====================================================
+	// FASE 2: Análise de cor fill para identificar tipo
+	// =====================================================
+	const fillMatch = svgCode.match(/fill\s*=\s*["']([^"']+)["']/i);
+	if (fillMatch) {
+		const fillColor = fillMatch[1].toLowerCase();
+		// Rosa/vermelho (#e91e63, #f44336, #e53935, etc.) = coração/favorito
+		if (/^#[ef][0-9][0-5a-f][0-9a-f]{3}$/i.test(fillColor) || 
+		    /^#[ef][0-9a-f]{5}$/i.test(fillColor) && /e9|e5|f4|ff|d3|c6/.test(fillColor)) {
+			// Verificar se é ícone pequeno (24x24 tipicamente)
+			if (/viewBox\s*=\s*["']0\s+0\s+24\s+24["']/i.test(svgCode)) {
+				// Verificar se tem path complexo (coração)
+				if (pathMatch && pathMatch[1].length > 50) {
+					return { title: 'Adicionar aos favoritos', desc: '' };
+				}
+			}
+		}
+	}
+
+	// =====================================================
+	// FASE 3: Análise estrutural de elementos
+	// =====================================================
+	
+	// Contar elementos para determinar estrutura
+	const lineCount = (svgCode.match(/<line\b/gi) || []).length;
+	const circleCount = (svgCode.match(/<circle\b/gi) || []).length;
+	const pathCount = (svgCode.match(/<path\b/gi) || []).length;
+	const rectCount = (svgCode.match(/<rect\b/gi) || []).length;
+	const textCount = (svgCode.match(/<text\b/gi) || []).length;
+
+	// =====================================================
+	// FASE 3A: Gráficos e diagramas (PRIORIDADE sobre ícones)
+	// =====================================================
+	
+	// 📊 Gráfico de barras: múltiplos rects (barras) + linhas (eixos)
+	if (rectCount >= 3 && lineCount >= 1) {
+		return { title: 'Gráfico de barras', desc: 'Gráfico de barras comparando valores de diferentes categorias.' };
+	}
+
+	// 📊 Gráfico de barras alternativo: múltiplos rects sem linhas
+	if (rectCount >= 4 && lineCount === 0 && pathCount === 0) {
+		return { title: 'Gráfico de barras', desc: 'Gráfico de barras comparando valores.' };
+	}
+
+	// 📈 Gráfico de pizza: múltiplos paths com arcos (A comando em SVG)
+	if (pathCount >= 3) {
+		const paths = svgCode.match(/d\s*=\s*["'][^"']+["']/gi) || [];
+		let arcPaths = 0;
+		for (const p of paths) {
+			if (/\sA\s*\d/i.test(p)) arcPaths++;
+		}
+		if (arcPaths >= 2) {
+			return { title: 'Gráfico de distribuição', desc: 'Gráfico circular mostrando proporções de diferentes categorias.' };
+		}
+	}
+
+	// 📋 Diagrama de fluxo: rects + linhas + texto
+	if (rectCount >= 2 && lineCount >= 1 && textCount >= 1) {
+		return { title: 'Diagrama de fluxo', desc: 'Diagrama mostrando etapas de um processo.' };
+	}
+
+	// =====================================================
+	// FASE 3B: Ícones simples (apenas se não for gráfico)
+	// =====================================================
+	
+	// 🔍 Lupa/Busca: 1 círculo + 1 linha (cabo) - SEM rects
+	if (circleCount === 1 && lineCount === 1 && pathCount === 0 && rectCount === 0) {
+		return { title: 'Pesquisar', desc: '' };
+	}
+
+	// ☰ Menu hamburger: exatamente 3 linhas horizontais - SEM rects
+	if (lineCount === 3 && pathCount === 0 && circleCount === 0 && rectCount === 0) {
+		// Verificar se as linhas são horizontais (y1 == y2 para cada uma)
+		const lines = svgCode.match(/<line[^>]+>/gi) || [];
+		let horizontalLines = 0;
+		for (const line of lines) {
+			const y1Match = line.match(/y1\s*=\s*["']?(\d+)/);
+			const y2Match = line.match(/y2\s*=\s*["']?(\d+)/);
+			if (y1Match && y2Match && y1Match[1] === y2Match[1]) {
+				horizontalLines++;
+			}
+		}
+		if (horizontalLines === 3) {
+			return { title: 'Abrir menu de navegação', desc: '' };
+		}
+	}
+
+	// ✕ Fechar: exatamente 2 linhas cruzando em X - SEM rects
+	if (lineCount === 2 && pathCount === 0 && circleCount === 0 && rectCount === 0) {
+		return { title: 'Fechar', desc: '' };
+	}
+
+	// 🔔 Sino/Notificação: path + círculo pequeno (badge)
+	if (pathCount >= 1 && circleCount >= 1) {
+		// Verificar se círculo é pequeno (badge de notificação)
+		const smallCircle = /<circle[^>]+r\s*=\s*["']?[1-5]["']?/i.test(svgCode);
+		if (smallCircle) {
+			return { title: 'Ver notificações', desc: '' };
+		}
+	}
+
+	// =====================================================
+	// FASE 4: Keywords no SVG (classes, IDs, comentários)
+	// =====================================================
+	const keywordPatterns: Array<{ pattern: RegExp; title: string; desc?: string }> = [
+		// Favoritos/Coração
+		{ pattern: /heart|coração|favorit|❤|love/i, title: 'Adicionar aos favoritos' },
+		// Busca
+		{ pattern: /search|magnif|lupa|busca|pesquis/i, title: 'Pesquisar' },
+		// Menu
+		{ pattern: /menu|hamburger|nav/i, title: 'Abrir menu de navegação' },
+		// Fechar
+		{ pattern: /close|fechar|dismiss|×/i, title: 'Fechar' },
+		// Notificações
+		{ pattern: /bell|sino|notif|alert/i, title: 'Ver notificações' },
+		// Download
+		{ pattern: /download|baixar/i, title: 'Baixar arquivo' },
+		// Upload
+		{ pattern: /upload|enviar.*arquivo/i, title: 'Enviar arquivo' },
+		// Editar
+		{ pattern: /edit|pencil|lápis|caneta|editar/i, title: 'Editar' },
+		// Excluir
+		{ pattern: /trash|delete|lixo|excluir|remover/i, title: 'Excluir' },
+		// Configurações
+		{ pattern: /settings|config|gear|engrenagem|cog/i, title: 'Abrir configurações' },
+		// Usuário
+		{ pattern: /user|profile|person|avatar|usuário|perfil/i, title: 'Perfil do usuário' },
+		// Home
+		{ pattern: /home|house|casa|início/i, title: 'Ir para página inicial' },
+		// Adicionar
+		{ pattern: /plus|add(?!ress)|adicionar/i, title: 'Adicionar novo item' },
+		// Check
+		{ pattern: /check|confirm|tick|verificar|confirmar/i, title: 'Confirmar' },
+		// Email
+		{ pattern: /mail|email|envelope|carta/i, title: 'Enviar email' },
+		// Telefone
+		{ pattern: /phone|telefone|call|ligar/i, title: 'Ligar' },
+		// Localização
+		{ pattern: /location|pin|map(?!le)|local(?!host)|mapa/i, title: 'Ver localização' },
+		// Link
+		{ pattern: /(?<!un)link|chain|corrente/i, title: 'Copiar link' },
+		// Compartilhar
+		{ pattern: /share|compartilhar/i, title: 'Compartilhar' },
+		// Play
+		{ pattern: /\bplay\b|reproduzir|iniciar/i, title: 'Reproduzir' },
+		// Pause
+		{ pattern: /pause|pausar/i, title: 'Pausar' },
+		// Volume
+		{ pattern: /volume|sound|som(?!e)|audio/i, title: 'Ajustar volume' },
+		// Pasta
+		{ pattern: /folder|pasta|diretório/i, title: 'Abrir pasta' },
+		// Documento
+		{ pattern: /\bfile\b|document|arquivo|documento/i, title: 'Ver documento' },
+		// Segurança
+		{ pattern: /lock|secure|cadeado|seguro/i, title: 'Segurança' },
+		// Visualizar
+		{ pattern: /\beye\b|view(?!box)|olho|visualizar/i, title: 'Visualizar' },
+		// Salvar
+		{ pattern: /save|salvar|disk|disco/i, title: 'Salvar' },
+		// Copiar
+		{ pattern: /\bcopy\b|copiar|clipboard/i, title: 'Copiar' },
+		// Estrela
+		{ pattern: /\bstar\b|estrela|destaque/i, title: 'Marcar como favorito' },
+		// Atualizar
+		{ pattern: /refresh|reload|atualizar|sync/i, title: 'Atualizar' },
+		// Informação
+		{ pattern: /\binfo\b|informação/i, title: 'Ver informações' },
+		// Ajuda
+		{ pattern: /\bhelp\b|ajuda/i, title: 'Obter ajuda' },
+		// Calendário
+		{ pattern: /calendar|calendário/i, title: 'Abrir calendário' },
+		// Relógio
+		{ pattern: /clock|relógio|hora/i, title: 'Ver horário' },
+		// Chat
+		{ pattern: /chat|message|mensagem|comment|comentário/i, title: 'Abrir conversa' },
+		// Carrinho
+		{ pattern: /cart|carrinho|shop|compras/i, title: 'Ver carrinho de compras' },
+		// Logout
+		{ pattern: /logout|signout|sair/i, title: 'Sair da conta' },
+		// Login
+		{ pattern: /login|signin|entrar/i, title: 'Fazer login' },
+		// Setas
+		{ pattern: /arrow.*left|chevron.*left|previous|anterior/i, title: 'Anterior' },
+		{ pattern: /arrow.*right|chevron.*right|next|próximo/i, title: 'Próximo' },
+		// Imprimir
+		{ pattern: /print|imprimir/i, title: 'Imprimir' },
+		// Anexar
+		{ pattern: /attach|anexo/i, title: 'Anexar arquivo' },
+		// Like
+		{ pattern: /\blike\b|curtir|thumb.*up/i, title: 'Curtir' },
+	];
+
+	for (const { pattern, title, desc } of keywordPatterns) {
+		if (pattern.test(svgCode)) {
+			return { title, desc: desc || '' };
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { HtmlReportFile, renderHtmlReport } from './htmlReport';
+
+const file = (thumbnail: string): HtmlReportFile => ({
+	id: '0',
+	file: 'index.html',
+	items: [{ id: '0', kind: 'img', status: 'missing', start: 0, end: 10, line: 1, column: 1, markup: '<img>', src: thumbnail, thumbnail }]
+});
+
+test('miniatura remota não é carregada por padrão', () => {
+	const html = renderHtmlReport([file('https://tracker.example/p.gif')]);
+	assert.ok(!html.includes('src="https://tracker.example/p.gif"'));
+	assert.ok(html.includes('Imagem remota (não carregada)'));
+	assert.match(html, /img-src data:;/);
+});
+
+test('miniatura remota com remoteImages e data URI sempre', () => {
+	assert.ok(renderHtmlReport([file('https://cdn.example/a.png')], { remoteImages: true }).includes('<img src="https://cdn.example/a.png"'));
+	assert.ok(renderHtmlReport([file('data:image/png;base64,AAAA')]).includes('<img src="data:image/png;base64,AAAA"'));
+});
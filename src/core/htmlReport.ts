@@ -0,0 +1,287 @@
+/**
+ * Relatório HTML de acessibilidade (inventário de <svg>/<img> por arquivo)
+ * A mesma marcação é usada no webview (com botões de ação) e no arquivo
+ * HTML autônomo exportado para designers e QA.
+ */
+
+import type { InventoryItem, InventoryStatus } from './inventory';
+
+export interface HtmlReportItem extends InventoryItem {
+	/** Identificador do item dentro do arquivo (usado nas mensagens do webview) */
+	id: string;
+	/** Miniatura: data URI ou URL da imagem */
+	thumbnail?: string;
+	/** tipoImagem.classificacao da última análise de IA */
+	classification?: string;
+}
+
+export interface HtmlReportFile {
+	id: string;
+	file: string; // caminho relativo exibido
+	items: HtmlReportItem[];
+}
+
+export interface HtmlReportOptions {
+	generatedAt?: Date;
+	/** Gera a versão interativa para o webview (botões de ação + script com nonce) */
+	webview?: { cspSource: string; nonce: string };
+	/** Textos do relatório no idioma da interface (padrão: português) */
+	strings?: HtmlReportStrings;
+	/**
+	 * Carrega miniaturas de URLs http(s). Desativado por padrão: abrir o relatório
+	 * faria requisições a servidores externos (ex: pixels de rastreamento).
+	 */
+	remoteImages?: boolean;
+}
+
+/** Ações disparadas pelos botões do webview */
+export type HtmlReportAction = 'reveal' | 'regenerate' | 'markDecorative';
+
+/**
+ * Textos do relatório. `{0}`, `{1}` são substituídos pelos valores (contagens, data, linha/coluna).
+ */
+export interface HtmlReportStrings {
+	/** Idioma do documento (atributo lang e formato da data) */
+	lang: string;
+	title: string;
+	heading: string;
+	generatedAt: string;
+	elementsInFiles: string;
+	missingCount: string;
+	decorativeCount: string;
+	labelledCount: string;
+	refresh: string;
+	exportHtml: string;
+	noElements: string;
+	noElementsInFile: string;
+	columnPreview: string;
+	columnElement: string;
+	columnStatus: string;
+	columnCurrentAlt: string;
+	columnClassification: string;
+	columnActions: string;
+	position: string;
+	reveal: string;
+	regenerate: string;
+	markDecorative: string;
+	/** Texto no lugar da miniatura de uma imagem remota não carregada */
+	remoteImage: string;
+	status: Record<InventoryStatus, string>;
+}
+
+export const DEFAULT_HTML_REPORT_STRINGS: HtmlReportStrings = {
+	lang: 'pt-BR',
+	title: 'Relatório de Acessibilidade - A11Y Assist',
+	heading: 'Relatório de Acessibilidade (WCAG 2.2 - 1.1.1)',
+	generatedAt: 'Gerado em {0} pelo A11Y Assist',
+	elementsInFiles: '{0} elemento(s) em {1} arquivo(s)',
+	missingCount: '{0} sem alternativa',
+	decorativeCount: '{0} decorativo(s)',
+	labelledCount: '{0} com texto alternativo',
+	refresh: 'Atualizar',
+	exportHtml: 'Exportar HTML',
+	noElements: 'Nenhum <svg> ou <img> encontrado.',
+	noElementsInFile: 'Nenhum <svg> ou <img> neste arquivo.',
+	columnPreview: 'Visualização',
+	columnElement: 'Elemento',
+	columnStatus: 'Situação',
+	columnCurrentAlt: 'Texto alternativo atual',
+	columnClassification: 'Classificação WCAG',
+	columnActions: 'Ações',
+	position: 'linha {0}, coluna {1}',
+	reveal: 'Ir para o código',
+	regenerate: 'Regenerar',
+	markDecorative: 'Marcar decorativa',
+	remoteImage: 'Imagem remota (não carregada)',
+	status: {
+		missing: 'Sem alternativa',
+		decorative: 'Decorativa',
+		labelled: 'Com texto alternativo'
+	}
+};
+
+const STYLES = `
+body { font-family: var(--vscode-font-family, system-ui, sans-serif); font-size: var(--vscode-font-size, 14px);
+	color: var(--vscode-foreground, #1f1f1f); background: var(--vscode-editor-background, #fff); margin: 0; padding: 16px 24px; }
+h1 { font-size: 1.4em; margin: 0 0 4px; }
+h2 { font-size: 1.05em; margin: 24px 0 8px; font-family: var(--vscode-editor-font-family, monospace); }
+.meta { opacity: .75; margin-bottom: 12px; }
+.summary span { margin-right: 16px; }
+.toolbar { margin: 12px 0; }
+table { border-collapse: collapse; width: 100%; }
+th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border, #ddd); }
+th { font-weight: 600; }
+.thumb { width: 64px; height: 64px; display: flex; align-items: center; justify-content: center;
+	background: repeating-conic-gradient(#e6e6e6 0% 25%, #fff 0% 50%) 50% / 12px 12px; border-radius: 4px; }
+.thumb img { max-width: 64px; max-height: 64px; }
+.thumb .remote { font-size: .75em; text-align: center; color: #41464b; }
+.badge { display: inline-block; padding: 1px 8px; border-radius: 10px; font-size: .85em; white-space: nowrap; }
+.badge.missing { background: #f8d7da; color: #842029; }
+.badge.decorative { background: #e2e3e5; color: #41464b; }
+.badge.labelled { background: #d1e7dd; color: #0f5132; }
+.empty { opacity: .6; font-style: italic; }
+code { font-family: var(--vscode-editor-font-family, monospace); }
+button { font: inherit; color: var(--vscode-button-foreground, #fff); background: var(--vscode-button-background, #0e639c);
+	border: none; padding: 3px 10px; margin: 0 4px 4px 0; border-radius: 2px; cursor: pointer; }
+button.secondary { color: var(--vscode-button-secondaryForeground, #fff); background: var(--vscode-button-secondaryBackground, #5f6a79); }
+button:disabled { opacity: .5; cursor: default; }
+`;
+
+const SCRIPT = `
+const vscode = acquireVsCodeApi();
+document.addEventListener('click', (event) => {
+	const button = event.target.closest('button[data-action]');
+	if (!button) return;
+	const row = button.closest('[data-item]');
+	const section = button.closest('[data-file]');
+	if (row) row.querySelectorAll('button').forEach((b) => (b.disabled = true));
+	vscode.postMessage({
+		type: button.dataset.action,
+		fileId: section ? section.dataset.file : undefined,
+		itemId: row ? row.dataset.item : undefined
+	});
+});
+window.addEventListener('message', (event) => {
+	const message = event.data;
+	if (message.type === 'updateFile') {
+		const section = document.querySelector('[data-file="' + message.fileId + '"]');
+		if (section) section.outerHTML = message.html;
+	} else if (message.type === 'done') {
+		const row = document.querySelector('[data-file="' + message.fileId + '"] [data-item="' + message.itemId + '"]');
+		if (row) row.querySelectorAll('button').forEach((b) => (b.disabled = false));
+	}
+});
+`;
+
+/**
+ * Gera o documento HTML completo do relatório
+ */
+export function renderHtmlReport(files: HtmlReportFile[], options: HtmlReportOptions = {}): string {
+	const items = files.flatMap((f) => f.items);
+	const count = (status: InventoryStatus) => items.filter((i) => i.status === status).length;
+	const generatedAt = options.generatedAt ?? new Date();
+	const webview = options.webview;
+	const t = options.strings ?? DEFAULT_HTML_REPORT_STRINGS;
+
+	const remoteImages = !!options.remoteImages;
+
+	const csp = webview
+		? `default-src 'none'; img-src ${webview.cspSource}${remoteImages ? ' https:' : ''} data:; style-src 'nonce-${webview.nonce}'; script-src 'nonce-${webview.nonce}';`
+		: `default-src 'none'; img-src${remoteImages ? ' https: http:' : ''} data:; style-src 'unsafe-inline';`;
+	const nonceAttr = webview ? ` nonce="${webview.nonce}"` : '';
+
+	const toolbar = webview
+		? `<div class="toolbar">
+	<button data-action="refresh">${escapeHtml(t.refresh)}</button>
+	<button data-action="export" class="secondary">${escapeHtml(t.exportHtml)}</button>
+</div>`
+		: '';
+
+	const body = files.length
+		? files.map((f) => renderHtmlReportFile(f, !!webview, t, remoteImages)).join('\n')
+		: `<p class="empty">${escapeHtml(t.noElements)}</p>`;
+
+	return `<!DOCTYPE html>
+<html lang="${escapeHtml(t.lang)}">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="${csp}">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(t.title)}</title>
+<style${nonceAttr}>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(t.heading)}</h1>
+<div class="meta">${escapeHtml(format(t.generatedAt, generatedAt.toLocaleString(t.lang)))}</div>
+<div class="summary">
+	<span>${format(escapeHtml(t.elementsInFiles), `<strong>${items.length}</strong>`, files.length)}</span>
+	<span class="badge missing">${escapeHtml(format(t.missingCount, count('missing')))}</span>
+	<span class="badge decorative">${escapeHtml(format(t.decorativeCount, count('decorative')))}</span>
+	<span class="badge labelled">${escapeHtml(format(t.labelledCount, count('labelled')))}</span>
+</div>
+${toolbar}
+${body}
+${webview ? `<script${nonceAttr}>${SCRIPT}</script>` : ''}
+</body>
+</html>
+`;
+}
+
+/**
+ * Gera a seção de um arquivo (usada também para atualizar o webview após uma ação)
+ */
+export function renderHtmlReportFile(
+	file: HtmlReportFile,
+	interactive: boolean,
+	t: HtmlReportStrings = DEFAULT_HTML_REPORT_STRINGS,
+	remoteImages = false
+): string {
+	const rows = file.items.map((item) => renderItem(item, interactive, t, remoteImages)).join('\n');
+	const headers = [
+		t.columnPreview,
+		t.columnElement,
+		t.columnStatus,
+		t.columnCurrentAlt,
+		t.columnClassification,
+		...(interactive ? [t.columnActions] : [])
+	].map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+	return `<section data-file="${escapeHtml(file.id)}">
+<h2>${escapeHtml(file.file)}</h2>
+${file.items.length
+		? `<table>
+<thead><tr>${headers}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>`
+		: `<p class="empty">${escapeHtml(t.noElementsInFile)}</p>`}
+</section>`;
+}
+
+function renderItem(item: HtmlReportItem, interactive: boolean, t: HtmlReportStrings, remoteImages: boolean): string {
+	const thumb = !item.thumbnail
+		? '<span class="empty">—</span>'
+		: isRemoteUrl(item.thumbnail) && !remoteImages
+			? `<span class="empty remote">${escapeHtml(t.remoteImage)}</span>`
+			: `<img src="${escapeHtml(item.thumbnail)}" alt="">`;
+	const element = item.kind === 'svg'
+		? '<code>&lt;svg&gt;</code>'
+		: `<code>&lt;img&gt;</code><br><code>${escapeHtml(item.src || '')}</code>`;
+	const label = item.label
+		? escapeHtml(item.label) + (item.description ? `<br><small>${escapeHtml(item.description)}</small>` : '')
+		: '<span class="empty">—</span>';
+	const actions = interactive
+		? `<td>
+	<button data-action="reveal" class="secondary">${escapeHtml(t.reveal)}</button>
+	<button data-action="regenerate">${escapeHtml(t.regenerate)}</button>
+	${item.status === 'decorative' ? '' : `<button data-action="markDecorative" class="secondary">${escapeHtml(t.markDecorative)}</button>`}
+</td>`
+		: '';
+	return `<tr data-item="${escapeHtml(item.id)}">
+	<td><div class="thumb">${thumb}</div></td>
+	<td>${element}<br><small>${escapeHtml(format(t.position, item.line, item.column))}</small></td>
+	<td><span class="badge ${item.status}">${escapeHtml(t.status[item.status])}</span></td>
+	<td>${label}</td>
+	<td>${item.classification ? escapeHtml(item.classification) : '<span class="empty">—</span>'}</td>
+	${actions}
+</tr>`;
+}
+
+/** URL carregada pela rede (http, https ou sem esquema: //host/...) */
+function isRemoteUrl(url: string): boolean {
+	return /^(https?:)?\/\//i.test(url.trim());
+}
+
+/** Substitui {0}, {1}... pelos argumentos */
+function format(template: string, ...args: (string | number)[]): string {
+	return template.replace(/\{(\d+)\}/g, (match, index: string) => (index in args ? String(args[Number(index)]) : match));
+}
+
+function escapeHtml(str: string): string {
+	return str
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+		.replace(/'/g, '&#39;');
+}
@@ -0,0 +1,51 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { getEventListeners } from 'node:events';
+import { RequestCancelledError, RequestTimeoutError, fetchWithRetry } from './http';
+
+/** Servidor local: /ok responde na hora, /stall envia os cabeçalhos e não termina o corpo */
+async function withServer(run: (base: string) => Promise<void>): Promise<void> {
+	const server = http.createServer((req, res) => {
+		if (req.url === '/stall') {
+			res.writeHead(200, { 'content-type': 'text/plain' });
+			res.write('parcial');
+			return;
+		}
+		res.end('ok');
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	try {
+		await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+	} finally {
+		server.closeAllConnections();
+		server.close();
+	}
+}
+
+test('não acumula listeners no sinal do chamador após respostas lidas', () =>
+	withServer(async (base) => {
+		const controller = new AbortController();
+		for (let k = 0; k < 3; k++) {
+			const resp = await fetchWithRetry(`${base}/ok`, {}, { signal: controller.signal, maxRetries: 0 });
+			assert.equal(await resp.text(), 'ok');
+		}
+		assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+	}));
+
+test('cancelar durante a leitura do corpo aborta a leitura', () =>
+	withServer(async (base) => {
+		const controller = new AbortController();
+		const resp = await fetchWithRetry(`${base}/stall`, {}, { signal: controller.signal, maxRetries: 0 });
+		setTimeout(() => controller.abort(), 50);
+		await assert.rejects(resp.text(), RequestCancelledError);
+	}));
+
+test('timeout durante a leitura do corpo vira RequestTimeoutError', () =>
+	withServer(async (base) => {
+		const controller = new AbortController();
+		const resp = await fetchWithRetry(`${base}/stall`, {}, { signal: controller.signal, timeoutMs: 100, maxRetries: 0 });
+		await assert.rejects(resp.text(), RequestTimeoutError);
+		assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+	}));
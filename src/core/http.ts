@@ -0,0 +1,192 @@
+/**
+ * HTTP com timeout, novas tentativas (backoff exponencial + Retry-After) e cancelamento
+ */
+
+export interface RequestOptions {
+	/** Tempo máximo de cada tentativa, em ms (0 desativa) */
+	timeoutMs?: number;
+	/** Novas tentativas após 429/5xx ou falha de rede */
+	maxRetries?: number;
+	/** Cancelamento vindo do chamador (ex: botão "Cancelar" da notificação) */
+	signal?: AbortSignal;
+	/** Notificado antes de cada nova tentativa */
+	onRetry?(attempt: number, delayMs: number, reason: string): void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const DEFAULT_MAX_RETRIES = 2;
+
+/** Espera inicial do backoff exponencial */
+const BASE_DELAY_MS = 1_000;
+/** Teto da espera entre tentativas (inclusive quando vem de Retry-After) */
+const MAX_DELAY_MS = 30_000;
+
+/**
+ * A requisição foi cancelada pelo usuário
+ */
+export class RequestCancelledError extends Error {
+	constructor() {
+		super('Requisição cancelada');
+		this.name = 'RequestCancelledError';
+	}
+}
+
+/**
+ * A requisição excedeu o tempo limite em todas as tentativas
+ */
+export class RequestTimeoutError extends Error {
+	constructor(readonly timeoutMs: number) {
+		super(`Tempo limite de ${timeoutMs / 1000}s excedido`);
+		this.name = 'RequestTimeoutError';
+	}
+}
+
+export function isCancellation(err: unknown): err is RequestCancelledError {
+	return err instanceof RequestCancelledError;
+}
+
+/**
+ * Status que valem nova tentativa: limite de taxa, timeout do servidor e erros 5xx
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Converte o cabeçalho Retry-After (segundos ou data HTTP) em ms
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | undefined {
+	if (!value) return undefined;
+	const seconds = Number(value.trim());
+	if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Espera do backoff exponencial com jitter para a tentativa informada (0 = primeira repetição)
+ */
+export function backoffDelay(attempt: number): number {
+	const exp = BASE_DELAY_MS * 2 ** attempt;
+	return Math.min(MAX_DELAY_MS, exp / 2 + Math.random() * (exp / 2));
+}
+
+/**
+ * fetch com timeout por tentativa, novas tentativas e cancelamento.
+ * Retorna a última resposta (mesmo de erro) quando não há mais tentativas;
+ * lança RequestCancelledError, RequestTimeoutError ou o erro de rede.
+ */
+export async function fetchWithRetry(
+	url: string,
+	init: RequestInit,
+	options: RequestOptions = {}
+): Promise<Response> {
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const maxRetries = Math.max(0, options.maxRetries ?? DEFAULT_MAX_RETRIES);
+	const { signal } = options;
+
+	for (let attempt = 0; ; attempt++) {
+		throwIfAborted(signal);
+
+		const controller = new AbortController();
+		let timedOut = false;
+		const onAbort = () => controller.abort();
+		const release = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener('abort', onAbort);
+		};
+		const timer = timeoutMs > 0
+			? setTimeout(() => {
+				timedOut = true;
+				controller.abort();
+				signal?.removeEventListener('abort', onAbort);
+			}, timeoutMs)
+			: undefined;
+		signal?.addEventListener('abort', onAbort, { once: true });
+
+		let retryDelay: number;
+		let reason: string;
+		try {
+			const resp = await fetch(url, { ...init, signal: controller.signal });
+			if (resp.ok || !isRetryableStatus(resp.status) || attempt >= maxRetries) {
+				// Timeout e cancelamento continuam valendo durante a leitura do corpo;
+				// o listener do chamador sai quando o corpo termina, falha ou é descartado
+				timer?.unref?.();
+				return guardBody(resp, release, () =>
+					timedOut ? new RequestTimeoutError(timeoutMs) : signal?.aborted ? new RequestCancelledError() : undefined
+				);
+			}
+			release();
+			retryDelay = Math.min(MAX_DELAY_MS, parseRetryAfter(resp.headers.get('retry-after')) ?? backoffDelay(attempt));
+			reason = `HTTP ${resp.status}`;
+			// Liberar a conexão da resposta descartada
+			await resp.body?.cancel().catch(() => undefined);
+		} catch (err) {
+			release();
+			throwIfAborted(signal);
+			const failure = timedOut ? new RequestTimeoutError(timeoutMs) : err;
+			if (attempt >= maxRetries) throw failure;
+			retryDelay = backoffDelay(attempt);
+			reason = (failure as Error).message;
+		}
+
+		options.onRetry?.(attempt + 1, retryDelay, reason);
+		await sleep(retryDelay, signal);
+	}
+}
+
+/**
+ * Resposta cujo corpo chama `release` ao terminar, falhar ou ser descartado
+ * (sinais de longa duração acumulariam um listener por requisição).
+ * Falhas da leitura por timeout/cancelamento viram RequestTimeoutError/RequestCancelledError.
+ */
+function guardBody(resp: Response, release: () => void, abortError: () => Error | undefined): Response {
+	if (!resp.body) {
+		release();
+		return resp;
+	}
+	const reader = resp.body.getReader();
+	const body = new ReadableStream<Uint8Array>({
+		async pull(controller) {
+			try {
+				const { done, value } = await reader.read();
+				if (done) {
+					release();
+					controller.close();
+				} else {
+					controller.enqueue(value);
+				}
+			} catch (err) {
+				release();
+				controller.error(abortError() ?? err);
+			}
+		},
+		cancel(reason) {
+			release();
+			return reader.cancel(reason);
+		}
+	});
+	return new Response(body, { status: resp.status, statusText: resp.statusText, headers: resp.headers });
+}
+
+function throwIfAborted(signal: AbortSignal | undefined): void {
+	if (signal?.aborted) throw new RequestCancelledError();
+}
+
+/**
+ * Espera interrompível pelo cancelamento
+ */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve, reject) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(new RequestCancelledError());
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		if (signal?.aborted) onAbort();
+		else signal?.addEventListener('abort', onAbort, { once: true });
+	});
+}
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { IAClient, IAClientOptions, IAResponseSuggestion } from './iaClient';
+
+type Reply = { status: number; body: string };
+
+const SVG = '<svg viewBox="0 0 10 10"><path d="M1 1L9 9"/></svg>';
+const OK: Reply = {
+	status: 200,
+	body: JSON.stringify({ choices: [{ message: { content: '{"isDecorative":false,"titleText":"Seta","descText":""}' } }] })
+};
+
+/** Servidor OpenAI-compatível local: responde com as respostas da fila (a última se repete) e guarda os corpos recebidos */
+async function withServer(replies: Reply[], run: (endpoint: string, bodies: Record<string, unknown>[]) => Promise<void>): Promise<void> {
+	const bodies: Record<string, unknown>[] = [];
+	const server = http.createServer((req, res) => {
+		let data = '';
+		req.on('data', (chunk) => (data += chunk));
+		req.on('end', () => {
+			bodies.push(JSON.parse(data));
+			const reply = replies.length > 1 ? replies.shift()! : replies[0];
+			res.writeHead(reply.status, { 'content-type': 'application/json' });
+			res.end(reply.body);
+		});
+	});
+	await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+	try {
+		await run(`http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/chat/completions`, bodies);
+	} finally {
+		server.closeAllConnections();
+		server.close();
+	}
+}
+
+function client(endpoint: string, model: string, warnings: string[] = [], cache?: Map<string, IAResponseSuggestion>): IAClient {
+	const opts: IAClientOptions = { provider: 'openai', endpoint, apiKey: 'k', model, maxRetries: 0 };
+	return new IAClient(opts, { warn: (_message, warning) => warnings.push(warning?.kind ?? '') }, cache);
+}
+
+test('400 sem relação com o esquema não desliga a saída estruturada', () =>
+	withServer([{ status: 400, body: '{"error":{"message":"max_tokens is too large"}}' }, OK], async (endpoint, bodies) => {
+		const warnings: string[] = [];
+		const result = await client(endpoint, 'modelo-a', warnings).suggestForSvg(SVG);
+		assert.deepEqual(warnings, ['text-fallback']);
+		assert.equal(bodies.length, 1);
+		assert.notEqual(result.titleText, 'Seta');
+
+		await client(endpoint, 'modelo-a').suggestForSvg(SVG);
+		assert.ok(bodies[1].response_format, 'o próximo pedido ainda usa response_format');
+	}));
+
+test('400 que cita response_format repete sem o parâmetro só para aquele modelo', () =>
+	withServer([{ status: 400, body: '{"error":{"message":"response_format json_schema is not supported"}}' }, OK], async (endpoint, bodies) => {
+		const result = await client(endpoint, 'modelo-b').suggestForSvg(SVG);
+		assert.equal(result.titleText, 'Seta');
+		assert.equal(bodies.length, 2);
+		assert.ok(bodies[0].response_format);
+		assert.equal(bodies[1].response_format, undefined);
+
+		// Novo cliente com o mesmo modelo já pede sem; outro modelo continua com saída estruturada
+		await client(endpoint, 'modelo-b').suggestForSvg(SVG);
+		assert.equal(bodies[2].response_format, undefined);
+		await client(endpoint, 'modelo-c').suggestForSvg(SVG);
+		assert.ok(bodies[3].response_format);
+	}));
+
+test('cache: textos diferentes ao redor reaproveitam a sugestão; outro tipo de contexto não', () =>
+	withServer([OK], async (endpoint, bodies) => {
+		const ia = client(endpoint, 'modelo-d', [], new Map());
+		await ia.suggestForSvg(SVG, { context: { adjacentText: { before: 'Salvar', after: '' }, heading: 'Perfil' } });
+		await ia.suggestForSvg(SVG, { context: { adjacentText: { before: 'Enviar', after: '' }, heading: 'Contato' } });
+		assert.equal(bodies.length, 1);
+
+		await ia.suggestForSvg(SVG, { context: { control: { role: 'button', tag: 'button', text: '' } } });
+		assert.equal(bodies.length, 2);
+	}));
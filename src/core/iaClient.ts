@@ -0,0 +1,593 @@
+import * as fs from 'node:fs';
+import { buildPrompt, buildVisionPrompt, contextSection, languageSection, PromptOptions, ALTERNATIVES_RULE, PROMPT_VERSION, responseTokenBudget } from './prompt';
+import { contextCacheKey } from './elementContext';
+import { renderSvgToBase64, SvgRenderOptions } from './svgRenderer';
+import { AIProviderSetting, ProviderAdapter, ProviderImage, ProviderRequest, resolveProvider } from './providers';
+import { suggestSvgHeuristic, suggestImgHeuristic } from './heuristics';
+import { imageMimeType, isExternalImageSrc, resolveLocalImagePath } from './images';
+import { RequestCancelledError, RequestOptions, fetchWithRetry, isCancellation } from './http';
+import { SuggestionCache, normalizeMarkup, suggestionCacheKey } from './suggestionCache';
+import { ConnectionExchange, ConnectionTestReport, runConnectionTest } from './connectionTest';
+import { isLogLevelEnabled, log } from './logger';
+import {
+	RESPONSE_JSON_SCHEMAS,
+	ResponseFormat,
+	ResponseValidationError,
+	buildRepairPrompt,
+	parseSuggestionResponse
+} from './responseSchema';
+import { redactHeaders, redactPayload, redactSecrets } from './redact';
+
+/**
+ * Análise WCAG 2.2 detalhada retornada pelo LLM
+ */
+export interface WCAGAnalysis {
+	conformidade: {
+		status: 'conforme' | 'não conforme';
+		altObrigatorio: boolean;
+		justificativa: string;
+	};
+	tipoImagem: {
+		classificacao: 'Decorativa' | 'Funcional' | 'Informativa' | 'Complexa' | 'Captcha' | 'Texto em Imagem';
+		impacto: string;
+	};
+	codigoSugerido: string;
+}
+
+/**
+ * Texto alternativo candidato, com a confiança atribuída pelo modelo
+ */
+export interface AltTextAlternative {
+	text: string;
+	/** Confiança de 0 a 1 */
+	confidence: number;
+	/** Rótulo curto ou descrição mais completa */
+	length: 'short' | 'long';
+}
+
+export interface IAResponseSuggestion {
+	isDecorative: boolean;
+	titleText?: string;
+	descText?: string;
+	/** Outras redações possíveis para o texto, da maior para a menor confiança */
+	alternatives?: AltTextAlternative[];
+	/** Remove o <desc> existente quando descText está vazio (descrição apagada na revisão) */
+	removeDesc?: boolean;
+	/** Texto nos idiomas adicionais pedidos (SuggestOptions.locales), por código */
+	translations?: Record<string, { titleText: string; descText?: string }>;
+	/** Análise detalhada WCAG 2.2 (disponível quando LLM responde no novo formato) */
+	wcagAnalysis?: WCAGAnalysis;
+}
+
+export interface IAClientOptions {
+	apiKey?: string;
+	endpoint?: string;
+	model?: string;
+	useVision?: boolean; // Habilita análise visual com modelos multimodais
+	render?: SvgRenderOptions; // Rasterização do SVG no modo visão
+	provider?: AIProviderSetting; // Provedor explícito; "auto" detecta pela URL do endpoint
+	timeoutMs?: number; // Tempo limite de cada tentativa de chamada à IA
+	maxRetries?: number; // Novas tentativas após 429/5xx ou falha de rede
+}
+
+/**
+ * Opções de uma chamada de sugestão (contexto, idioma e traduções vão para o prompt)
+ */
+export interface SuggestOptions extends PromptOptions {
+	/** Cancela a chamada em andamento (lança RequestCancelledError, sem fallback) */
+	signal?: AbortSignal;
+	/** Ignora a sugestão em cache e consulta a IA novamente (ex: "Gerar novamente") */
+	refresh?: boolean;
+}
+
+/**
+ * Integração com o ambiente que hospeda o cliente (extensão VS Code, CLI, testes)
+ */
+export interface IAClientHost {
+	/**
+	 * Exibe um aviso ao usuário (ex: falha na IA com fallback para heurística).
+	 * `warning` identifica o aviso, para o host traduzir a mensagem.
+	 */
+	warn(message: string, warning?: IAClientWarning): void;
+	/** Valor atual de useVision, quando pode mudar após a criação do cliente */
+	useVision?(): boolean | undefined;
+}
+
+/**
+ * Aviso emitido pelo cliente: tipo e detalhe (mensagem do erro ou caminho da imagem)
+ */
+export interface IAClientWarning {
+	kind: 'text-fallback' | 'vision-fallback' | 'image-fallback' | 'image-not-found';
+	detail: string;
+}
+
+/**
+ * Resumo da configuração efetiva do cliente (ex: para a barra de status)
+ */
+export interface IAClientInfo {
+	providerId: string;
+	providerLabel: string;
+	model?: string;
+	endpoint?: string;
+	/** false = modo heurístico (sem endpoint/chave) */
+	configured: boolean;
+	useVision: boolean;
+}
+
+const consoleHost: IAClientHost = {
+	warn: (message) => log.warn(message)
+};
+
+/**
+ * Provedor/endpoint/modelo que recusaram o JSON mode/Structured Outputs.
+ * Vale para todos os clientes: a configuração recriada com o mesmo modelo não tenta de novo.
+ */
+const structuredOutputUnsupported = new Set<string>();
+
+/** Erro 400 causado pelo parâmetro de saída estruturada (e não pelo resto do pedido) */
+const STRUCTURED_OUTPUT_ERROR = /response_?format|json_?schema|\bschema\b|response_?mime_?type/i;
+
+export class IAClient {
+	private readonly adapter: ProviderAdapter;
+	/** Provedor escolhido explicitamente ou reconhecido pela URL (não é o fallback) */
+	private readonly providerDetected: boolean;
+
+	/**
+	 * @param cache - Cache persistente de sugestões (opcional); só respostas da IA são guardadas
+	 */
+	constructor(
+		private readonly opts: IAClientOptions,
+		private readonly host: IAClientHost = consoleHost,
+		private readonly cache?: SuggestionCache
+	) {
+		const resolved = resolveProvider(opts.provider, opts.endpoint ?? '');
+		this.adapter = resolved.adapter;
+		this.providerDetected = resolved.detected;
+	}
+
+	get info(): IAClientInfo {
+		return {
+			providerId: this.adapter.id,
+			providerLabel: this.adapter.label,
+			model: this.opts.model || undefined,
+			endpoint: this.opts.endpoint || undefined,
+			configured: this.isConfigured(),
+			useVision: !!this.opts.useVision
+		};
+	}
+
+	/**
+	 * Testa provedor, chave, modelo e suporte a imagens com pedidos mínimos (sem cache nem fallback)
+	 * @param onExchange - Recebe cada requisição/resposta, com segredos removidos
+	 */
+	async testConnection(
+		signal?: AbortSignal,
+		onExchange?: (exchange: ConnectionExchange) => void
+	): Promise<ConnectionTestReport> {
+		if (!this.opts.endpoint) {
+			throw new Error('Nenhum endpoint configurado (svgA11yAssist.endpoint ou SVG_A11Y_ENDPOINT no .env)');
+		}
+		const config = { endpoint: this.opts.endpoint, apiKey: this.opts.apiKey, model: this.opts.model };
+		return runConnectionTest(this.adapter, config, this.requestOptions(signal), onExchange);
+	}
+
+	/**
+	 * Há um endpoint utilizável? Provedores locais (Ollama, OpenAI-compatível) dispensam chave de API.
+	 */
+	private isConfigured(): boolean {
+		if (!this.opts.endpoint) return false;
+		return !!this.opts.apiKey || (this.adapter.local && this.providerDetected);
+	}
+
+	/**
+	 * Sugere acessibilidade para um <svg>
+	 */
+	async suggestForSvg(svgCode: string, options: SuggestOptions = {}): Promise<IAResponseSuggestion> {
+		// If no endpoint/key provided, use heuristic mock to keep UX responsive.
+		if (!this.isConfigured()) {
+			return suggestSvgHeuristic(svgCode);
+		}
+
+		// Decide entre modo texto ou visão
+		if (this.opts.useVision) {
+			return this.suggestWithVision(svgCode, options);
+		}
+
+		return this.suggestWithText(svgCode, options);
+	}
+
+	/**
+	 * Analisa uma tag <img> e sugere texto alt apropriado
+	 * Usa visão de IA para URLs externas E arquivos locais, heurística como fallback
+	 * @param imgSrc - O atributo src da imagem
+	 * @param imgTag - A tag HTML completa da imagem
+	 * @param documentPath - Caminho do documento para resolver caminhos relativos
+	 */
+	async suggestForImg(
+		imgSrc: string,
+		imgTag: string,
+		documentPath?: string,
+		options: SuggestOptions = {}
+	): Promise<IAResponseSuggestion> {
+		// Se não tem endpoint/key, usar heurística baseada no nome do arquivo
+		if (!this.isConfigured()) {
+			log.debug('Sem endpoint/apiKey, usando heurística');
+			return suggestImgHeuristic(imgSrc, imgTag);
+		}
+
+		// Ler configuração de visão dinamicamente (pode ter mudado desde a criação do cliente)
+		const useVision = this.host.useVision?.() ?? this.opts.useVision;
+		
+		log.debug(`suggestForImg - useVision: ${useVision}, imgSrc: ${imgSrc}, hasDocPath: ${!!documentPath}`);
+
+		// Se modo visão está habilitado
+		if (useVision) {
+			if (isExternalImageSrc(imgSrc)) {
+				log.debug('Usando visão para URL externa');
+				// URL externa: enviar diretamente para IA
+				return this.suggestImgWithVision(imgSrc, imgTag, { kind: 'url', url: imgSrc }, options);
+			} else if (documentPath) {
+				log.debug('Usando visão para arquivo local');
+				// Arquivo local: ler e enviar como base64
+				const image = this.readLocalImage(imgSrc, documentPath);
+				if (image) return this.suggestImgWithVision(imgSrc, imgTag, image, options);
+				return suggestImgHeuristic(imgSrc, imgTag);
+			} else {
+				log.debug('useVision ativo mas sem documentPath, caindo para texto');
+			}
+		}
+
+		log.debug('Usando análise de texto');
+		// Fallback: análise via texto com LLM
+		return this.suggestImgWithText(imgSrc, imgTag, options);
+	}
+
+	/**
+	 * Análise via prompt de texto (modo tradicional)
+	 */
+	private async suggestWithText(svgCode: string, options: SuggestOptions): Promise<IAResponseSuggestion> {
+		try {
+			return await this.cached(['svg', 'text', normalizeMarkup(svgCode)], options, () =>
+				this.complete(buildPrompt(svgCode, options), 'wcag', options)
+			);
+		} catch (err) {
+			if (isCancellation(err)) throw err;
+			this.host.warn(
+				`Falha na chamada de IA (texto), usando heurística local: ${(err as Error).message}`,
+				{ kind: 'text-fallback', detail: (err as Error).message }
+			);
+			return suggestSvgHeuristic(svgCode);
+		}
+	}
+
+	/**
+	 * Análise via modelo multimodal com visão (envia imagem + prompt)
+	 */
+	private async suggestWithVision(svgCode: string, options: SuggestOptions): Promise<IAResponseSuggestion> {
+		try {
+			const subject = ['svg', 'vision', normalizeMarkup(svgCode), JSON.stringify(this.opts.render ?? {})];
+			return await this.cached(subject, options, async () => {
+				// Rasterizar SVG para PNG
+				const rendered = await renderSvgToBase64(svgCode, this.opts.render);
+				return this.complete(buildVisionPrompt(options), 'wcag', options, {
+					kind: 'base64',
+					data: rendered.base64,
+					mimeType: rendered.mimeType
+				});
+			});
+		} catch (err) {
+			if (isCancellation(err)) throw err;
+			this.host.warn(
+				`Falha na chamada de IA (visão), tentando modo texto: ${(err as Error).message}`,
+				{ kind: 'vision-fallback', detail: (err as Error).message }
+			);
+			// Fallback para modo texto
+			return this.suggestWithText(svgCode, options);
+		}
+	}
+
+	/**
+	 * Análise de imagem via prompt de texto (envia nome do arquivo/URL para o LLM)
+	 */
+	private async suggestImgWithText(
+		imgSrc: string,
+		imgTag: string,
+		options: SuggestOptions
+	): Promise<IAResponseSuggestion> {
+		try {
+			return await this.cached(['img', 'text', imgSrc, normalizeMarkup(imgTag)], options, () =>
+				this.complete(this.buildImgTextPrompt(imgSrc, imgTag, options), 'simple', options)
+			);
+		} catch (err) {
+			if (isCancellation(err)) throw err;
+			this.host.warn(
+				`Falha na análise de imagem com IA, usando heurística: ${(err as Error).message}`,
+				{ kind: 'image-fallback', detail: (err as Error).message }
+			);
+			return suggestImgHeuristic(imgSrc, imgTag);
+		}
+	}
+
+	/**
+	 * Analisa uma imagem (URL externa ou arquivo local em Base64) usando modelo de visão
+	 */
+	private async suggestImgWithVision(
+		imgSrc: string,
+		imgTag: string,
+		image: ProviderImage,
+		options: SuggestOptions
+	): Promise<IAResponseSuggestion> {
+		try {
+			// Arquivo local: bytes da imagem; URL externa: o próprio endereço
+			const subject = ['img', 'vision', image.kind === 'url' ? image.url : image.data];
+			return await this.cached(subject, options, () =>
+				this.complete(this.buildImgVisionPrompt(options), 'simple', options, image)
+			);
+		} catch (err) {
+			if (isCancellation(err)) throw err;
+			this.host.warn(
+				`Falha na análise de imagem com IA, usando heurística: ${(err as Error).message}`,
+				{ kind: 'image-fallback', detail: (err as Error).message }
+			);
+			return suggestImgHeuristic(imgSrc, imgTag);
+		}
+	}
+
+	/**
+	 * Lê uma imagem local (relativa ao documento) em Base64
+	 */
+	private readLocalImage(imgSrc: string, documentPath: string): ProviderImage | undefined {
+		// Resolver o caminho da imagem relativo ao documento
+		const imagePath = resolveLocalImagePath(imgSrc, documentPath);
+		log.debug(`readLocalImage - imagePath: ${imagePath}`);
+
+		// Verificar se o arquivo existe
+		if (!fs.existsSync(imagePath)) {
+			this.host.warn(`Arquivo de imagem não encontrado: ${imagePath}`, { kind: 'image-not-found', detail: imagePath });
+			return undefined;
+		}
+
+		const data = fs.readFileSync(imagePath).toString('base64');
+		log.trace(`Imagem lida, tamanho base64: ${data.length} caracteres`);
+		return { kind: 'base64', data, mimeType: imageMimeType(imagePath) };
+	}
+
+	/**
+	 * Consulta o cache antes de chamar a IA e guarda a resposta obtida.
+	 * Provedor, modelo, versão do prompt, forma resumida do contexto do elemento e idiomas fazem parte da chave.
+	 * Com `refresh`, a consulta ao cache é pulada e a nova resposta o substitui.
+	 */
+	private async cached(
+		subject: string[],
+		options: SuggestOptions,
+		produce: () => Promise<IAResponseSuggestion>
+	): Promise<IAResponseSuggestion> {
+		if (!this.cache) return produce();
+
+		const key = suggestionCacheKey([
+			this.adapter.id,
+			this.opts.model,
+			PROMPT_VERSION,
+			...subject,
+			contextCacheKey(options.context),
+			options.language,
+			options.locales?.join(',')
+		]);
+		const hit = options.refresh ? undefined : this.cache.get(key);
+		if (hit) {
+			log.debug(`Sugestão obtida do cache (${key.slice(0, 12)})`);
+			return hit;
+		}
+
+		const suggestion = await produce();
+		this.cache.set(key, suggestion);
+		return suggestion;
+	}
+
+	/**
+	 * Envia o prompt (e a imagem, se houver) ao provedor configurado e interpreta a resposta.
+	 * O limite de tokens acompanha o formato e os idiomas adicionais pedidos.
+	 */
+	private async complete(
+		prompt: string,
+		format: ResponseFormat,
+		options: SuggestOptions,
+		image?: ProviderImage
+	): Promise<IAResponseSuggestion> {
+		const { signal } = options;
+		const maxTokens = responseTokenBudget(options, format);
+		// Provedores que só aceitam Base64 recebem a imagem baixada
+		if (image?.kind === 'url' && !this.adapter.supportsImageUrl) {
+			image = await fetchImage(image.url, this.requestOptions(signal));
+		}
+
+		const responseSchema = RESPONSE_JSON_SCHEMAS[format];
+		const text = await this.send({ prompt, image, maxTokens, responseSchema }, signal);
+		try {
+			return parseSuggestionResponse(text, format);
+		} catch (err) {
+			if (!(err instanceof ResponseValidationError)) throw err;
+			// Uma única tentativa de reparo (só texto: basta corrigir o formato da resposta anterior)
+			log.warn(`${err.message}; pedindo ao modelo que corrija a resposta`);
+			const repaired = await this.send(
+				{ prompt: buildRepairPrompt(err, format), maxTokens, responseSchema },
+				signal
+			);
+			return parseSuggestionResponse(repaired, format);
+		}
+	}
+
+	/**
+	 * Envia um pedido ao provedor e devolve o texto gerado pelo modelo
+	 */
+	private async send(providerRequest: ProviderRequest, signal?: AbortSignal): Promise<string> {
+		const adapter = this.adapter;
+		const config = { endpoint: this.opts.endpoint!, apiKey: this.opts.apiKey, model: this.opts.model };
+		const request = this.requestOptions(signal);
+		const image = providerRequest.image;
+		const structuredKey = [adapter.id, config.endpoint, config.model ?? ''].join('\n');
+		const structured = !!providerRequest.responseSchema && !structuredOutputUnsupported.has(structuredKey);
+
+		const body = JSON.stringify(adapter.buildRequestBody(
+			structured ? providerRequest : { ...providerRequest, responseSchema: undefined },
+			config
+		));
+		const headers = adapter.buildHeaders(config);
+		const redact = (text: string) => redactPayload(redactSecrets(text, [config.apiKey]));
+		log.info(`Requisição ${adapter.id} → ${redact(config.endpoint)} (${image ? 'visão' : 'texto'})`);
+		if (isLogLevelEnabled('trace')) {
+			log.trace(`Cabeçalhos: ${JSON.stringify(redactHeaders(headers))}`);
+			log.trace(`Corpo: ${redact(body)}`);
+		}
+
+		const started = Date.now();
+		const resp = await fetchWithRetry(config.endpoint, { method: 'POST', headers, body }, request);
+		// fetchWithRetry converte timeout/cancelamento durante a leitura em RequestTimeoutError/RequestCancelledError
+		const text = await resp.text();
+
+		log.info(`Resposta HTTP ${resp.status} em ${Date.now() - started}ms`);
+		log.trace(`Resposta: ${redact(text)}`);
+
+		if (!resp.ok) {
+			// Modelos sem saída estruturada recusam o parâmetro: repetir sem ele (e não usá-lo mais nesse modelo)
+			if (structured && resp.status === 400 && STRUCTURED_OUTPUT_ERROR.test(text)) {
+				log.warn(`Saída estruturada recusada pelo modelo, repetindo sem JSON mode: ${adapter.mapError(resp.status, text).message}`);
+				structuredOutputUnsupported.add(structuredKey);
+				return this.send(providerRequest, signal);
+			}
+			throw adapter.mapError(resp.status, text);
+		}
+
+		return adapter.parseResponse(JSON.parse(text));
+	}
+
+	private requestOptions(signal?: AbortSignal): RequestOptions {
+		return {
+			timeoutMs: this.opts.timeoutMs,
+			maxRetries: this.opts.maxRetries,
+			signal,
+			onRetry: (attempt, delayMs, reason) => {
+				log.warn(`${reason}; nova tentativa ${attempt} em ${Math.round(delayMs)}ms`);
+			}
+		};
+	}
+
+	/**
+	 * Prompt para análise de imagem via texto (sem visão)
+	 */
+	private buildImgTextPrompt(imgSrc: string, imgTag: string, options: PromptOptions): string {
+		// Extrair nome do arquivo
+		const fileName = imgSrc.split('/').pop()?.split('?')[0] || imgSrc;
+		
+		return `Você é um Analista de Conformidade WCAG 2.2 Sênior especializado em acessibilidade web.
+
+TAREFA:
+Analise o caminho/URL desta imagem e a tag HTML para sugerir um texto alternativo (alt) apropriado.
+
+INFORMAÇÕES DA IMAGEM:
+- Caminho/URL: ${imgSrc}
+- Nome do arquivo: ${fileName}
+- Tag HTML completa: ${imgTag}
+${contextSection(options.context)}
+DETERMINE:
+1. Se a imagem é DECORATIVA (não transmite informação)
+2. Se é INFORMATIVA (transmite conteúdo importante)
+3. Se é um ÍCONE funcional (indica ação)
+4. Se é um LOGO (identidade visual)
+5. Se é uma IMAGEM COMPLEXA (gráfico, diagrama)
+
+RESPONDA APENAS COM JSON:
+{
+  "isDecorative": boolean,
+  "titleText": "texto alt sugerido (vazio se decorativa)",
+  "descText": "descrição longa se for imagem complexa",
+  "alternatives": [
+    { "text": "outra redação do alt", "confidence": 0.0 a 1.0, "length": "short" | "long" }
+  ]
+}
+
+REGRAS IMPORTANTES:
+- Se o nome contém "icon", "spacer", "background", "decorative", "pattern" → provavelmente decorativa
+- Se o nome contém "logo" → extraia o nome da marca e use "Logo [marca]"
+- Se o nome contém "banner", "hero", "product" → descreva o propósito
+- Se o nome é um hash/código (ex: "abc123def.jpg") → use "[Descrição da imagem]" como placeholder
+- Texto alt deve ser conciso (max 125 caracteres)
+- Não comece com "Imagem de" ou "Foto de"
+- Seja específico e descreva o PROPÓSITO da imagem, não sua aparência
+${ALTERNATIVES_RULE}${languageSection(options, 'simple')}`;
+	}
+
+	/**
+	 * Prompt específico para análise de imagens
+	 */
+	private buildImgVisionPrompt(options: PromptOptions): string {
+		return `Você é um Analista de Conformidade WCAG 2.2 Sênior. Analise esta imagem e forneça um texto alternativo (alt) apropriado.
+
+TAREFA:
+Determine se a imagem é:
+1. DECORATIVA: Não transmite informação, apenas estética
+2. INFORMATIVA: Transmite informação importante
+3. FUNCIONAL: É parte de um link ou botão
+4. COMPLEXA: Gráfico, diagrama ou infográfico que precisa de descrição longa
+${contextSection(options.context)}
+RESPONDA APENAS COM JSON:
+{
+  "isDecorative": boolean,
+  "titleText": "texto alt sugerido (vazio se decorativa)",
+  "descText": "descrição longa se for imagem complexa",
+  "alternatives": [
+    { "text": "outra redação do alt", "confidence": 0.0 a 1.0, "length": "short" | "long" }
+  ]
+}
+
+REGRAS:
+- Se decorativa: isDecorative=true, titleText=""
+- Se informativa: texto alt conciso e descritivo (max 125 caracteres)
+- Se complexa: titleText com resumo + descText com detalhes
+- Não comece com "Imagem de" ou "Foto de"
+- Seja específico e descritivo
+${ALTERNATIVES_RULE}${languageSection(options, 'simple')}`;
+	}
+
+}
+
+/**
+ * Converte uma data URI (`data:[<mediatype>][;base64],<dados>`) em imagem Base64.
+ * Parâmetros extras do tipo (ex: ;charset=utf-8) são ignorados; dados sem
+ * ;base64 vêm percent-encoded (ex: SVG em data:image/svg+xml,%3Csvg...).
+ */
+function decodeDataUri(url: string): ProviderImage {
+	const comma = url.indexOf(',');
+	if (comma < 0) throw new Error('Data URI inválida (sem vírgula)');
+	const [mediaType, ...params] = url.slice('data:'.length, comma).split(';');
+	const isBase64 = params.length > 0 && params[params.length - 1].trim().toLowerCase() === 'base64';
+	const mimeType = mediaType.trim().toLowerCase() || 'image/png';
+	const payload = url.slice(comma + 1);
+	try {
+		const data = isBase64
+			? decodeURIComponent(payload).replace(/\s+/g, '')
+			: Buffer.from(decodeURIComponent(payload), 'utf-8').toString('base64');
+		return { kind: 'base64', data, mimeType };
+	} catch {
+		throw new Error('Data URI inválida (codificação percentual malformada)');
+	}
+}
+
+/**
+ * Obtém uma imagem remota (ou data URI) em Base64
+ */
+async function fetchImage(url: string, request: RequestOptions): Promise<ProviderImage> {
+	if (url.startsWith('data:')) return decodeDataUri(url);
+	const resp = await fetchWithRetry(url, {}, request);
+	if (!resp.ok) {
+		await resp.body?.cancel().catch(() => undefined);
+		throw new Error(`Falha ao baixar imagem (HTTP ${resp.status})`);
+	}
+	const mimeType = resp.headers.get('content-type')?.split(';')[0] || imageMimeType(new URL(url).pathname);
+	try {
+		return { kind: 'base64', data: Buffer.from(await resp.arrayBuffer()).toString('base64'), mimeType };
+	} catch (err) {
+		if (request.signal?.aborted) throw new RequestCancelledError();
+		throw err;
+	}
+}
@@ -0,0 +1,39 @@
+/**
+ * Utilitários para imagens referenciadas por <img src="...">
+ */
+
+import * as path from 'node:path';
+
+const MIME_TYPES: Record<string, string> = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.gif': 'image/gif',
+	'.webp': 'image/webp',
+	'.svg': 'image/svg+xml',
+	'.bmp': 'image/bmp',
+	'.ico': 'image/x-icon'
+};
+
+/**
+ * Retorna o tipo MIME baseado na extensão do arquivo
+ */
+export function imageMimeType(filePath: string): string {
+	return MIME_TYPES[path.extname(filePath).toLowerCase()] || 'image/jpeg';
+}
+
+/**
+ * Indica se o src aponta para fora do disco (URL http/https ou data URI)
+ */
+export function isExternalImageSrc(src: string): boolean {
+	return src.startsWith('http://') || src.startsWith('https://') || src.startsWith('data:');
+}
+
+/**
+ * Resolve o src de uma imagem local relativo ao documento que a referencia
+ */
+export function resolveLocalImagePath(src: string, documentPath: string): string {
+	// Remove query string/hash (ex: logo.png?v=2)
+	const clean = src.replace(/[?#].*$/, '');
+	return path.resolve(path.dirname(documentPath), clean);
+}
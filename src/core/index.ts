@@ -0,0 +1,28 @@
+/**
+ * Núcleo do A11Y Assist, independente do VS Code
+ * Detecção (parser + regras), sugestão (IA/heurística) e cálculo de edições.
+ * Usado pela extensão, pela CLI e por qualquer outro host (ex: language server).
+ */
+
+export * from './svgParser';
+export * from './audit';
+export * from './textEdits';
+export * from './heuristics';
+export * from './iaClient';
+export * from './env';
+export * from './prompt';
+export * from './svgRenderer';
+export * from './gitignore';
+export * from './images';
+export * from './inventory';
+export * from './htmlReport';
+export * from './report';
+export * from './providers';
+export * from './http';
+export * from './suggestionCache';
+export * from './connectionTest';
+export * from './redact';
+export * from './logger';
+export * from './responseSchema';
+export * from './elementContext';
+export * from './outputLanguage';
@@ -0,0 +1,94 @@
+import {
+	MarkupDialect,
+	MarkupElement,
+	findSvgNodes,
+	findImgNodes,
+	getAttribute,
+	needsAccessibility,
+	imgNeedsAccessibility
+} from './svgParser';
+import { createPositionResolver } from './audit';
+
+/**
+ * Situação de acessibilidade de um elemento:
+ * - missing: sem alternativa textual (falha WCAG 1.1.1)
+ * - decorative: oculto para tecnologias assistivas (aria-hidden, alt="", role="presentation")
+ * - labelled: possui texto alternativo
+ */
+export type InventoryStatus = 'missing' | 'decorative' | 'labelled';
+
+/**
+ * Um <svg> ou <img> encontrado no arquivo, com ou sem problemas
+ */
+export interface InventoryItem {
+	kind: 'svg' | 'img';
+	start: number;
+	end: number;
+	line: number;   // base 1
+	column: number; // base 1
+	status: InventoryStatus;
+	/** Texto alternativo atual: <title>/aria-label do SVG ou alt da IMG */
+	label?: string;
+	/** Descrição longa atual (<desc> do SVG) */
+	description?: string;
+	/** Código do elemento (SVG completo ou tag <img>) */
+	markup: string;
+	/** src da <img> */
+	src?: string;
+}
+
+/**
+ * Lista todos os <svg>/<img> do texto (incluindo os já acessíveis), em ordem de aparição
+ */
+export function collectInventory(text: string, dialect: MarkupDialect): InventoryItem[] {
+	const positionAt = createPositionResolver(text);
+	const items: InventoryItem[] = [];
+
+	for (const node of findSvgNodes(text, dialect)) {
+		const title = node.element.children.find((c) => c.localName === 'title');
+		const desc = node.element.children.find((c) => c.localName === 'desc');
+		const label = (title && innerText(text, title)) || getAttribute(node, 'aria-label')?.value || undefined;
+		const pos = positionAt(node.start);
+		items.push({
+			kind: 'svg',
+			start: node.start,
+			end: node.end,
+			line: pos.line + 1,
+			column: pos.character + 1,
+			status: node.hasAriaHidden ? 'decorative' : needsAccessibility(node) ? 'missing' : 'labelled',
+			label,
+			description: (desc && innerText(text, desc)) || undefined,
+			markup: node.content
+		});
+	}
+
+	for (const node of findImgNodes(text, dialect)) {
+		const pos = positionAt(node.start);
+		const decorative = node.hasAriaHidden || node.hasRole || node.alt === '';
+		items.push({
+			kind: 'img',
+			start: node.start,
+			end: node.end,
+			line: pos.line + 1,
+			column: pos.character + 1,
+			status: imgNeedsAccessibility(node) ? 'missing' : decorative ? 'decorative' : 'labelled',
+			label: node.alt || undefined,
+			markup: node.content,
+			src: node.src
+		});
+	}
+
+	return items.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Texto entre as tags de abertura e fechamento, sem marcação e com espaços normalizados
+ */
+function innerText(text: string, el: MarkupElement): string {
+	if (!el.closeTag) return '';
+	return text
+		.slice(el.openTag.end, el.closeTag.start)
+		.replace(/<[^>]*>/g, '')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
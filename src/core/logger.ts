@@ -0,0 +1,52 @@
+/**
+ * Log estruturado do núcleo
+ * O host define o destino (canal de saída no VS Code, stderr na CLI) e o nível;
+ * sem host, apenas avisos e erros vão para o stderr.
+ */
+
+export type LogLevel = 'off' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+export interface LogSink {
+	error(message: string): void;
+	warn(message: string): void;
+	info(message: string): void;
+	debug(message: string): void;
+	trace(message: string): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { off: 0, error: 1, warn: 2, info: 3, debug: 4, trace: 5 };
+
+const stderrSink: LogSink = {
+	error: (message) => console.error(`[A11Y] ${message}`),
+	warn: (message) => console.error(`[A11Y] ${message}`),
+	info: (message) => console.error(`[A11Y] ${message}`),
+	debug: (message) => console.error(`[A11Y] ${message}`),
+	trace: (message) => console.error(`[A11Y] ${message}`)
+};
+
+let sink: LogSink = stderrSink;
+let threshold = LEVEL_ORDER.warn;
+
+/**
+ * Define o destino e o nível mínimo do log
+ */
+export function configureLogger(target: LogSink, level: LogLevel): void {
+	sink = target;
+	threshold = LEVEL_ORDER[level] ?? LEVEL_ORDER.info;
+}
+
+export function isLogLevelEnabled(level: Exclude<LogLevel, 'off'>): boolean {
+	return LEVEL_ORDER[level] <= threshold;
+}
+
+function emit(level: Exclude<LogLevel, 'off'>, message: string): void {
+	if (isLogLevelEnabled(level)) sink[level](message);
+}
+
+export const log = {
+	error: (message: string) => emit('error', message),
+	warn: (message: string) => emit('warn', message),
+	info: (message: string) => emit('info', message),
+	debug: (message: string) => emit('debug', message),
+	trace: (message: string) => emit('trace', message)
+};
@@ -0,0 +1,112 @@
+import { globToRegExp } from './gitignore';
+
+/**
+ * Idioma das sugestões
+ * Os prompts são escritos em português, mas o texto alternativo deve sair no
+ * idioma da página: `lang` do documento, mapeamento por pasta, dica de i18n
+ * do código (JSX) ou o idioma padrão configurado, nesta ordem.
+ */
+
+export type OutputLanguageSource = 'lang' | 'folder' | 'i18n' | 'setting' | 'fallback';
+
+export interface OutputLanguage {
+	/** Tag BCP 47 normalizada (ex: en, es, pt-BR) */
+	code: string;
+	source: OutputLanguageSource;
+}
+
+export interface OutputLanguageInputs {
+	/** lang do ancestral mais próximo ou de <html> (ElementContext.lang) */
+	lang?: string;
+	/** Caminho do arquivo relativo ao workspace (POSIX), para o mapeamento por pasta */
+	relativePath?: string;
+	/** Glob → idioma (ex: { "sites/es/**": "es" }) */
+	folderLanguages?: Record<string, string>;
+	/** Texto do documento, para as dicas de i18n */
+	source?: string;
+	/** Idioma padrão configurado ("auto" ou vazio usa `fallback`) */
+	setting?: string;
+	/** Último recurso (ex: idioma da interface do editor) */
+	fallback?: string;
+}
+
+/** Idioma usado quando nada mais se aplica (comportamento original da extensão) */
+export const DEFAULT_OUTPUT_LANGUAGE = 'pt-BR';
+
+/**
+ * Normaliza uma tag de idioma (pt_br → pt-BR, EN → en); undefined se inválida
+ */
+export function normalizeLanguageTag(tag: string | undefined): string | undefined {
+	const trimmed = tag?.trim().replace(/_/g, '-');
+	if (!trimmed || !/^[a-z]{2,3}(?:-[a-z0-9]{2,8})*$/i.test(trimmed)) return undefined;
+	try {
+		return Intl.getCanonicalLocales(trimmed)[0];
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Idioma sugerido pelo código: caminho em pasta de locale (locales/es/...),
+ * provedores de i18n (<IntlProvider locale="es">, i18n.init({ lng: 'es' }))
+ */
+export function detectI18nLanguage(source: string, relativePath?: string): string | undefined {
+	const fromPath = relativePath && /(?:^|\/)(?:locales?|i18n|lang|langs|translations)\/([a-zA-Z]{2,3}(?:[-_][a-zA-Z]{2,4})?)\//.exec(relativePath)?.[1];
+	if (fromPath) return normalizeLanguageTag(fromPath);
+
+	const patterns = [
+		/\blocale\s*=\s*\{?\s*["'`]([a-zA-Z]{2,3}(?:[-_][a-zA-Z]{2,4})?)["'`]/,
+		/\b(?:lng|defaultLocale|locale|language)\s*:\s*["'`]([a-zA-Z]{2,3}(?:[-_][a-zA-Z]{2,4})?)["'`]/,
+		/\bchangeLanguage\(\s*["'`]([a-zA-Z]{2,3}(?:[-_][a-zA-Z]{2,4})?)["'`]/
+	];
+	for (const pattern of patterns) {
+		const match = pattern.exec(source)?.[1];
+		const code = normalizeLanguageTag(match);
+		if (code) return code;
+	}
+	return undefined;
+}
+
+/**
+ * Idioma do mapeamento por pasta (primeiro glob que casar com o caminho)
+ */
+export function folderLanguage(relativePath: string, folderLanguages: Record<string, string>): string | undefined {
+	for (const [glob, language] of Object.entries(folderLanguages)) {
+		if (globToRegExp(glob).test(relativePath)) return normalizeLanguageTag(language);
+	}
+	return undefined;
+}
+
+/**
+ * Resolve o idioma de saída a partir das fontes disponíveis
+ */
+export function resolveOutputLanguage(inputs: OutputLanguageInputs): OutputLanguage {
+	const lang = normalizeLanguageTag(inputs.lang);
+	if (lang) return { code: lang, source: 'lang' };
+
+	if (inputs.relativePath && inputs.folderLanguages) {
+		const folder = folderLanguage(inputs.relativePath, inputs.folderLanguages);
+		if (folder) return { code: folder, source: 'folder' };
+	}
+
+	const i18n = inputs.source !== undefined ? detectI18nLanguage(inputs.source, inputs.relativePath) : undefined;
+	if (i18n) return { code: i18n, source: 'i18n' };
+
+	const setting = inputs.setting === 'auto' ? undefined : normalizeLanguageTag(inputs.setting);
+	if (setting) return { code: setting, source: 'setting' };
+
+	return { code: normalizeLanguageTag(inputs.fallback) ?? DEFAULT_OUTPUT_LANGUAGE, source: 'fallback' };
+}
+
+/**
+ * Nome do idioma em português para o prompt (ex: "espanhol (es)")
+ */
+export function describeLanguage(code: string): string {
+	try {
+		const name = new Intl.DisplayNames(['pt-BR'], { type: 'language' }).of(code);
+		if (name && name !== code) return `${name} (${code})`;
+	} catch {
+		// ICU sem dados de idiomas: usa só o código
+	}
+	return code;
+}
@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { responseTokenBudget } from './prompt';
+import { parseSuggestionResponse } from './responseSchema';
+
+/** Estimativa otimista de tokens (~4 caracteres por token; em português costuma ser menos) */
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/** Resposta WCAG realista: gráfico com descrição longa, 4 alternativas e 2 traduções */
+const wcagResponse = JSON.stringify({
+	conformidade: {
+		status: 'não conforme',
+		altObrigatorio: true,
+		justificativa: 'O gráfico transmite dados de vendas que não estão disponíveis em texto na página; sem alternativa textual, usuários de leitores de tela perdem a informação, violando o Critério 1.1.1.'
+	},
+	tipoImagem: {
+		classificacao: 'Complexa',
+		impacto: 'Imagens complexas precisam de um texto alternativo curto que identifique o conteúdo e de uma descrição longa com os dados relevantes apresentados no gráfico.'
+	},
+	recomendacao: {
+		altText: 'Gráfico de barras com as vendas trimestrais de 2024 por região',
+		descricaoLonga: 'Vendas por região em 2024: Sudeste lidera em todos os trimestres (R$ 4,2 mi no 1º, 4,8 mi no 2º, 5,1 mi no 3º e 6,0 mi no 4º); Sul cresce de R$ 2,1 mi para 3,0 mi; Nordeste fica estável em torno de R$ 1,8 mi; Norte e Centro-Oeste somam menos de R$ 1 mi por trimestre.',
+		solucaoAria: 'role="img" com aria-labelledby apontando para o <title> e aria-describedby para o <desc>',
+		alternativas: [
+			{ texto: 'Vendas trimestrais de 2024 por região', confianca: 0.9, tamanho: 'curto' },
+			{ texto: 'Gráfico de vendas 2024', confianca: 0.8, tamanho: 'curto' },
+			{ texto: 'Gráfico de barras comparando as vendas de cada região nos quatro trimestres de 2024, com o Sudeste à frente', confianca: 0.75, tamanho: 'completo' },
+			{ texto: 'Comparativo de vendas por região e trimestre em 2024, do maior para o menor volume', confianca: 0.6, tamanho: 'completo' }
+		]
+	},
+	codigoSugerido: '<svg role="img" aria-labelledby="t1" aria-describedby="d1"><title id="t1">Gráfico de barras com as vendas trimestrais de 2024 por região</title><desc id="d1">Vendas por região em 2024: Sudeste lidera em todos os trimestres...</desc>...</svg>',
+	traducoes: {
+		en: {
+			altText: 'Bar chart of 2024 quarterly sales by region',
+			descricaoLonga: 'Sales by region in 2024: the Southeast leads every quarter (R$ 4.2M in Q1, 4.8M in Q2, 5.1M in Q3 and 6.0M in Q4); the South grows from R$ 2.1M to 3.0M; the Northeast stays around R$ 1.8M; the North and Midwest add up to less than R$ 1M per quarter.'
+		},
+		es: {
+			altText: 'Gráfico de barras con las ventas trimestrales de 2024 por región',
+			descricaoLonga: 'Ventas por región en 2024: el Sudeste lidera todos los trimestres (R$ 4,2 M en el 1.º, 4,8 M en el 2.º, 5,1 M en el 3.º y 6,0 M en el 4.º); el Sur crece de R$ 2,1 M a 3,0 M; el Nordeste se mantiene en torno a R$ 1,8 M; el Norte y el Centro-Oeste suman menos de R$ 1 M por trimestre.'
+		}
+	}
+}, null, 2);
+
+test('resposta realista com alternativas e traduções não cabe em 500 tokens', () => {
+	const suggestion = parseSuggestionResponse(wcagResponse, 'wcag');
+	assert.equal(suggestion.alternatives?.length, 4);
+	assert.deepEqual(Object.keys(suggestion.translations ?? {}), ['en', 'es']);
+	assert.ok(estimateTokens(wcagResponse) > 500);
+});
+
+test('limite de tokens cobre a resposta realista', () => {
+	const budget = responseTokenBudget({ language: 'pt-BR', locales: ['pt-BR', 'en', 'es'] }, 'wcag');
+	assert.ok(budget >= estimateTokens(wcagResponse) * 1.5, `limite ${budget} < 1,5 × ${estimateTokens(wcagResponse)}`);
+});
+
+test('limite de tokens cresce com os idiomas adicionais, sem contar o principal', () => {
+	const base = responseTokenBudget({}, 'simple');
+	assert.ok(base > 500);
+	assert.equal(responseTokenBudget({ language: 'en', locales: ['en'] }, 'simple'), base);
+	assert.ok(responseTokenBudget({ language: 'en', locales: ['en', 'es', 'fr'] }, 'simple') > base);
+});
@@ -0,0 +1,265 @@
+import { ElementContext, hasElementContext } from './elementContext';
+import { describeLanguage } from './outputLanguage';
+import type { ResponseFormat } from './responseSchema';
+
+/**
+ * Prompt WCAG 2.2 para análise de conformidade de imagens/SVGs
+ * Baseado no Critério de Sucesso 1.1.1 Conteúdo Não Textual (Nível A)
+ */
+
+/**
+ * Versão dos prompts (SVG e <img>). Incrementar ao alterar qualquer prompt:
+ * faz parte da chave do cache de sugestões.
+ */
+export const PROMPT_VERSION = 4;
+
+const WCAG_PERSONA = `🎯 **Persona e Fontes de Verdade:**
+Você é um Analista de Conformidade WCAG 2.2 Sênior, especializado em Conteúdo Não Textual. Sua única fonte de verdade para esta análise é o material técnico oficial da WCAG.`;
+
+const WCAG_TASK = `✍️ **Tarefa Principal e Critério Foco:**
+Sua tarefa é analisar o "Elemento de Design" (imagem) e o "Contexto e Função" fornecidos. O foco é garantir a conformidade com o **Critério de Sucesso 1.1.1 Conteúdo Não Textual** (Nível A).
+
+Você deve determinar:
+1. **Necessidade de Texto Alternativo:** A imagem **precisa ou não** de um texto alternativo (\`alt\`) não-vazio, dada a sua função e contexto?
+2. **Tipo de Imagem WCAG:** Qual o tipo de imagem que impacta a forma como o texto alternativo é escrito (ex: Decorativa, Funcional, Informativa, Complexa, Captcha, etc.)?
+3. **Texto Alternativo Ideal:** Qual seria o texto alternativo ideal (\`alt\`) ou a solução ARIA apropriada, seguindo as diretrizes WCAG 2.2?`;
+
+/**
+ * Regra das alternativas nos prompts de <img> (formato simples)
+ */
+export const ALTERNATIVES_RULE = `- Em "alternatives", ofereça de 2 a 4 outras redações do "titleText" (lista vazia se decorativa), da maior para a menor "confidence" (0.0 a 1.0): pelo menos um rótulo "short" (até 40 caracteres) e uma descrição "long" (até 125 caracteres)`;
+
+/**
+ * Dados do elemento e da saída desejada, comuns a todos os prompts
+ */
+export interface PromptOptions {
+	/** Contexto do elemento no documento (link/botão, texto ao redor, legenda...) */
+	context?: ElementContext;
+	/** Idioma do texto alternativo (tag BCP 47, ex: en, es, pt-BR) */
+	language?: string;
+	/** Idiomas adicionais devolvidos em "traducoes"/"translations" (arquivos de i18n) */
+	locales?: string[];
+}
+
+/**
+ * Seção do prompt com o contexto do elemento no documento (vazia se não houver)
+ */
+export function formatElementContext(context?: ElementContext): string {
+	if (!hasElementContext(context)) return '';
+	const lines: string[] = [];
+	const { control, adjacentText } = context;
+	if (control) {
+		const kind = control.role === 'link' ? 'link' : 'botão';
+		const details = [
+			control.text ? `texto visível "${control.text}"` : 'sem texto visível',
+			control.label ? `aria-label/title "${control.label}"` : '',
+			control.href ? `destino ${control.href}` : ''
+		].filter(Boolean).join(', ');
+		lines.push(`- **Dentro de ${kind}:** <${control.tag}> com ${details}`);
+	}
+	if (adjacentText) {
+		const around = [adjacentText.before, '[ELEMENTO]', adjacentText.after].filter(Boolean).join(' ');
+		lines.push(`- **Texto ao redor:** "${around}"`);
+	}
+	if (context.label) lines.push(`- **Rótulo (<label>):** "${context.label}"`);
+	if (context.figcaption) lines.push(`- **Legenda da figura (<figcaption>):** "${context.figcaption}"`);
+	if (context.heading) lines.push(`- **Título mais próximo:** "${context.heading}"`);
+	if (context.lang) lines.push(`- **Idioma da página (lang):** ${context.lang}`);
+
+	return `📍 **Contexto no Documento:**
+${lines.join('\n')}
+
+Use o contexto para classificar: dentro de link/botão sem outro texto, a imagem é **Funcional** e o alt descreve a ação ou o destino; se o texto visível ao lado (ou do controle) já transmite a mesma informação, a imagem é **Decorativa**; a legenda e o título ajudam a descrever o conteúdo.`;
+}
+
+const WCAG_OUTPUT_FORMAT = `📋 **Formato de Saída e Restrições:**
+Sua resposta deve ser estruturada **estritamente em formato JSON** com os seguintes campos:
+
+{
+  "conformidade": {
+    "status": "conforme" | "não conforme",
+    "altObrigatorio": true | false,
+    "justificativa": "Declaração clara sobre conformidade com 1.1.1"
+  },
+  "tipoImagem": {
+    "classificacao": "Decorativa" | "Funcional" | "Informativa" | "Complexa" | "Captcha" | "Texto em Imagem",
+    "impacto": "Descrição de como o tipo define a necessidade do alt"
+  },
+  "recomendacao": {
+    "altText": "Texto alternativo recomendado ou string vazia para decorativas",
+    "descricaoLonga": "Descrição detalhada para imagens complexas ou string vazia",
+    "solucaoAria": "role, aria-label, aria-describedby se aplicável",
+    "alternativas": [
+      { "texto": "Outra redação do texto alternativo", "confianca": 0.0 a 1.0, "tamanho": "curto" | "completo" }
+    ]
+  },
+  "codigoSugerido": "Snippet HTML/ARIA completo para implementação"
+}
+
+Em "alternativas", ofereça de 2 a 4 outras redações do "altText" (lista vazia se decorativa), da maior para a menor "confianca" (0.0 a 1.0): pelo menos um rótulo "curto" (até 40 caracteres) e uma descrição "completo" (até 125 caracteres).
+
+Responda SOMENTE com o JSON válido, sem explicações adicionais.`;
+
+/**
+ * Prompt para análise via código SVG (modo texto)
+ */
+export function buildPrompt(svgCode: string, options: PromptOptions = {}): string {
+	return `${WCAG_PERSONA}
+
+${WCAG_TASK}
+
+📌 **Contexto e Função:**
+- **Elemento de Design:** Código SVG inline em página web
+- **Tecnologia:** HTML/SVG com possível uso de ARIA
+- **Propósito:** Analisar o código SVG abaixo e determinar a melhor estratégia de acessibilidade
+${contextSection(options.context)}
+${WCAG_OUTPUT_FORMAT}${languageSection(options, 'wcag')}
+
+---
+
+**Input SVG para Análise:**
+\`\`\`svg
+${svgCode}
+\`\`\``;
+}
+
+/**
+ * Prompt para análise via imagem (modo visão/multimodal)
+ * Este prompt é usado quando o SVG é enviado como imagem para modelos com capacidade de visão
+ */
+export function buildVisionPrompt(options: PromptOptions = {}): string {
+	return `${WCAG_PERSONA}
+
+${WCAG_TASK}
+
+📌 **Contexto e Função:**
+- **Elemento de Design:** Imagem SVG renderizada (anexada)
+- **Tecnologia:** HTML/SVG com possível uso de ARIA
+- **Propósito:** Analisar visualmente a imagem e determinar a melhor estratégia de acessibilidade
+
+**Tipos de Imagem WCAG para Referência:**
+- **Decorativa:** Ícones de separação, formas abstratas sem significado, elementos puramente estéticos → \`alt=""\` ou \`aria-hidden="true"\`
+- **Funcional:** Botões, links, controles interativos → alt descreve a AÇÃO, não a aparência
+- **Informativa:** Logos, ilustrações com significado, fotos → alt descreve o CONTEÚDO informacional
+- **Complexa:** Gráficos de dados, diagramas, infográficos → alt resumido + descrição longa detalhada
+${contextSection(options.context)}
+${WCAG_OUTPUT_FORMAT}${languageSection(options, 'wcag')}`;
+}
+
+/**
+ * Prompt para análise de imagens genéricas (PNG, JPG, etc.) - não apenas SVG
+ */
+export function buildImageAnalysisPrompt(options: PromptOptions = {}): string {
+	return `${WCAG_PERSONA}
+
+${WCAG_TASK}
+
+📌 **Contexto e Função:**
+- **Elemento de Design:** Imagem genérica (PNG/JPG/GIF/WebP)
+- **Tecnologia:** HTML com atributo alt e possível uso de ARIA
+
+**Tipos de Imagem WCAG para Referência:**
+- **Decorativa:** Backgrounds, separadores visuais, elementos estéticos → \`alt=""\`
+- **Funcional:** Imagem como link ou botão → alt descreve a AÇÃO/destino
+- **Informativa:** Fotos, ilustrações com significado → alt descreve o CONTEÚDO
+- **Complexa:** Gráficos, infográficos → alt resumido + \`aria-describedby\` para descrição longa
+- **Texto em Imagem:** Texto renderizado como imagem → alt reproduz o texto exato
+${contextSection(options.context)}
+${WCAG_OUTPUT_FORMAT}${languageSection(options, 'wcag')}`;
+}
+
+/** Seção de contexto separada por linhas em branco (vazia se não houver contexto) */
+export function contextSection(context?: ElementContext): string {
+	const section = formatElementContext(context);
+	return section ? `\n${section}\n` : '';
+}
+
+/** Campos de texto de cada formato de resposta */
+const TEXT_FIELDS: Record<ResponseFormat, { text: string; desc: string; alternatives: string; translations: string; fixed: string }> = {
+	wcag: {
+		text: 'altText',
+		desc: 'descricaoLonga',
+		alternatives: 'alternativas',
+		translations: 'traducoes',
+		fixed: '"status", "classificacao" e "tamanho"'
+	},
+	simple: {
+		text: 'titleText',
+		desc: 'descText',
+		alternatives: 'alternatives',
+		translations: 'translations',
+		fixed: '"length"'
+	}
+};
+
+/**
+ * Tokens de resposta de cada formato: o JSON completo com até 4 alternativas
+ * (`base`) e cada idioma adicional em "traducoes"/"translations" (`perLocale`).
+ * Folga para idiomas com mais tokens por palavra; o modelo para ao fechar o JSON.
+ */
+const RESPONSE_TOKENS: Record<ResponseFormat, { base: number; perLocale: number }> = {
+	wcag: { base: 1500, perLocale: 500 },
+	simple: { base: 800, perLocale: 300 }
+};
+
+/** Idiomas adicionais pedidos, sem repetir o idioma principal */
+function extraLocales(options: PromptOptions): string[] {
+	return (options.locales ?? []).filter((l) => l !== options.language);
+}
+
+/**
+ * Limite de tokens (max_tokens) para a resposta do prompt: cresce com os
+ * idiomas adicionais, para alternativas e traduções não saírem truncadas
+ */
+export function responseTokenBudget(options: PromptOptions, format: ResponseFormat): number {
+	const { base, perLocale } = RESPONSE_TOKENS[format];
+	return base + extraLocales(options).length * perLocale;
+}
+
+/**
+ * Instrução de idioma: o texto alternativo sai no idioma da página (e nos
+ * idiomas adicionais pedidos), mesmo com o prompt em português.
+ * Vazia quando não há idioma nem traduções.
+ */
+export function languageSection(options: PromptOptions, format: ResponseFormat): string {
+	const fields = TEXT_FIELDS[format];
+	const locales = extraLocales(options);
+	if (!options.language && !locales.length) return '';
+
+	const lines = ['🌐 **Idioma da Resposta:**'];
+	if (options.language) {
+		lines.push(`Escreva "${fields.text}", "${fields.desc}" e "${fields.alternatives}" em **${describeLanguage(options.language)}**, mesmo que estas instruções estejam em português. Os valores fixos do formato (${fields.fixed}) continuam exatamente como especificados.`);
+	}
+	if (locales.length) {
+		const example = locales
+			.map((l) => `"${l}": { "${fields.text}": "...", "${fields.desc}": "..." }`)
+			.join(', ');
+		lines.push(`Inclua também o campo "${fields.translations}" com o mesmo texto traduzido para ${locales.map(describeLanguage).join(', ')} (usado em arquivos de i18n):
+"${fields.translations}": { ${example} }`);
+	}
+	return `\n\n${lines.join('\n')}`;
+}
+
+/**
+ * Interface para resposta estruturada do LLM no formato WCAG
+ */
+export interface WCAGAnalysisResponse {
+	conformidade: {
+		status: 'conforme' | 'não conforme';
+		altObrigatorio: boolean;
+		justificativa: string;
+	};
+	tipoImagem: {
+		classificacao: 'Decorativa' | 'Funcional' | 'Informativa' | 'Complexa' | 'Captcha' | 'Texto em Imagem';
+		impacto: string;
+	};
+	recomendacao: {
+		altText: string;
+		descricaoLonga: string;
+		solucaoAria?: string;
+		alternativas?: { texto: string; confianca: number; tamanho: 'curto' | 'completo' }[];
+	};
+	codigoSugerido: string;
+	/** Texto por idioma adicional (quando pedido) */
+	traducoes?: Record<string, { altText: string; descricaoLonga?: string }>;
+}
@@ -0,0 +1,45 @@
+import { ProviderAdapter, defaultMapError } from './types';
+
+interface MessagesResponse {
+	content?: { text?: string }[];
+}
+
+/**
+ * Anthropic Claude - Messages API
+ */
+export const claudeProvider: ProviderAdapter = {
+	id: 'claude',
+	label: 'Anthropic Claude',
+	local: false,
+	supportsImageUrl: true,
+	defaultEndpoint: 'https://api.anthropic.com/v1/messages',
+
+	matchesEndpoint: (endpoint) => /anthropic|claude/i.test(endpoint),
+	buildHeaders: (config) => ({
+		'Content-Type': 'application/json',
+		'anthropic-version': '2023-06-01',
+		'x-api-key': config.apiKey ?? ''
+	}),
+	buildImagePart: (image) => ({
+		type: 'image',
+		source: image.kind === 'url'
+			? { type: 'url', url: image.url }
+			: { type: 'base64', media_type: image.mimeType, data: image.data }
+	}),
+	buildRequestBody(request, config) {
+		return {
+			model: config.model || 'claude-3-5-sonnet-20241022',
+			max_tokens: request.maxTokens,
+			messages: [
+				{
+					role: 'user',
+					content: request.image
+						? [this.buildImagePart(request.image), { type: 'text', text: request.prompt }]
+						: request.prompt
+				}
+			]
+		};
+	},
+	parseResponse: (data) => (data as MessagesResponse).content?.[0]?.text || '',
+	mapError: (status, body) => defaultMapError('claude', status, body)
+};
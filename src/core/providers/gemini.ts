@@ -0,0 +1,47 @@
+import { ProviderAdapter, defaultMapError } from './types';
+
+interface GenerateContentResponse {
+	candidates?: { content?: { parts?: { text?: string }[] } }[];
+}
+
+/**
+ * Google Gemini - generateContent (o modelo faz parte da URL do endpoint)
+ */
+export const geminiProvider: ProviderAdapter = {
+	id: 'gemini',
+	label: 'Google Gemini',
+	local: false,
+	// inlineData exige os bytes; URLs arbitrárias não são aceitas
+	supportsImageUrl: false,
+	defaultEndpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-pro:generateContent',
+
+	matchesEndpoint: (endpoint) => /google|gemini|generativelanguage/i.test(endpoint),
+	buildHeaders: (config) => ({
+		'Content-Type': 'application/json',
+		...(config.apiKey ? { 'x-goog-api-key': config.apiKey } : {})
+	}),
+	buildImagePart: (image) => {
+		if (image.kind === 'url') {
+			throw new Error('Gemini não aceita imagens por URL');
+		}
+		return { inlineData: { mimeType: image.mimeType, data: image.data } };
+	},
+	buildRequestBody(request) {
+		return {
+			contents: [
+				{
+					parts: request.image
+						? [this.buildImagePart(request.image), { text: request.prompt }]
+						: [{ text: request.prompt }]
+				}
+			],
+			generationConfig: {
+				maxOutputTokens: request.maxTokens,
+				// JSON mode; o esquema é validado localmente (responseSchema do Gemini aceita só um subconjunto)
+				...(request.responseSchema ? { responseMimeType: 'application/json' } : {})
+			}
+		};
+	},
+	parseResponse: (data) => (data as GenerateContentResponse).candidates?.[0]?.content?.parts?.[0]?.text || '',
+	mapError: (status, body) => defaultMapError('gemini', status, body)
+};
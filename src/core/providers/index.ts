@@ -0,0 +1,73 @@
+/**
+ * Registro de provedores de IA
+ * Para suportar um novo provedor (ex: Azure OpenAI, Mistral), crie um módulo
+ * que implemente ProviderAdapter e adicione-o a BUILT_IN_PROVIDERS (ou chame
+ * registerProvider). Todos os fluxos de análise passam a usá-lo automaticamente.
+ */
+
+import { ProviderAdapter } from './types';
+import { openaiProvider } from './openai';
+import { claudeProvider } from './claude';
+import { geminiProvider } from './gemini';
+import { ollamaProvider } from './ollama';
+import { openaiCompatibleProvider } from './openaiCompatible';
+
+export * from './types';
+
+/** Identificador do provedor (id de um ProviderAdapter registrado) */
+export type AIProvider = string;
+
+/** Valor da configuração svgA11yAssist.provider */
+export type AIProviderSetting = AIProvider | 'auto';
+
+/** Ordem importa: o primeiro que reconhecer a URL vence no modo "auto" */
+const BUILT_IN_PROVIDERS: ProviderAdapter[] = [
+	openaiProvider,
+	claudeProvider,
+	geminiProvider,
+	ollamaProvider,
+	openaiCompatibleProvider
+];
+
+/** Usado quando o modo "auto" não reconhece a URL (formato OpenAI é o mais difundido) */
+const FALLBACK_PROVIDER = openaiCompatibleProvider;
+
+const registry = new Map<string, ProviderAdapter>(BUILT_IN_PROVIDERS.map((p) => [p.id, p]));
+
+/**
+ * Registra (ou substitui) um adaptador de provedor
+ */
+export function registerProvider(adapter: ProviderAdapter): void {
+	registry.set(adapter.id, adapter);
+}
+
+export function getProvider(id: string): ProviderAdapter | undefined {
+	return registry.get(id);
+}
+
+export function listProviders(): ProviderAdapter[] {
+	return [...registry.values()];
+}
+
+/**
+ * Detecta o provedor pela URL do endpoint ('unknown' se nenhum reconhecer)
+ */
+export function detectAIProvider(endpoint: string): AIProvider | 'unknown' {
+	return listProviders().find((p) => p.matchesEndpoint(endpoint))?.id ?? 'unknown';
+}
+
+/**
+ * Provedor efetivo: a configuração explícita prevalece; "auto" (ou vazio) detecta pela URL.
+ * `detected` é falso quando caiu no fallback (URL ou provedor não reconhecidos).
+ */
+export function resolveProvider(
+	setting: AIProviderSetting | undefined,
+	endpoint: string
+): { adapter: ProviderAdapter; detected: boolean } {
+	if (setting && setting !== 'auto') {
+		const explicit = registry.get(setting);
+		if (explicit) return { adapter: explicit, detected: true };
+	}
+	const match = listProviders().find((p) => p.matchesEndpoint(endpoint));
+	return match ? { adapter: match, detected: true } : { adapter: FALLBACK_PROVIDER, detected: false };
+}
@@ -0,0 +1,45 @@
+import { ProviderAdapter, defaultMapError } from './types';
+import { bearerHeaders } from './openai';
+
+interface OllamaChatResponse {
+	message?: { content?: string };
+}
+
+/**
+ * Ollama - API nativa (/api/chat), imagens em Base64 no campo images da mensagem
+ */
+export const ollamaProvider: ProviderAdapter = {
+	id: 'ollama',
+	label: 'Ollama',
+	local: true,
+	supportsImageUrl: false,
+	defaultEndpoint: 'http://localhost:11434/api/chat',
+
+	matchesEndpoint: (endpoint) => /:11434|ollama|\/api\/(chat|generate)\b/i.test(endpoint),
+	// Proxies autenticados na frente do Ollama podem exigir Bearer
+	buildHeaders: bearerHeaders,
+	buildImagePart: (image) => {
+		if (image.kind === 'url') {
+			throw new Error('Ollama não aceita imagens por URL');
+		}
+		return { images: [image.data] };
+	},
+	buildRequestBody(request, config) {
+		return {
+			model: config.model || 'llava',
+			messages: [
+				{
+					role: 'user',
+					content: request.prompt,
+					...(request.image ? this.buildImagePart(request.image) : {})
+				}
+			],
+			stream: false,
+			// JSON mode (compatível também com versões sem esquema estruturado)
+			...(request.responseSchema ? { format: 'json' } : {}),
+			options: { num_predict: request.maxTokens }
+		};
+	},
+	parseResponse: (data) => (data as OllamaChatResponse).message?.content || '',
+	mapError: (status, body) => defaultMapError('ollama', status, body)
+};
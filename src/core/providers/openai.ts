@@ -0,0 +1,63 @@
+import { ProviderAdapter, ProviderConfig, ProviderImage, ProviderRequest, defaultMapError } from './types';
+
+/** Resposta do Chat Completions (campos usados) */
+export interface ChatCompletionsResponse {
+	choices?: { message?: { content?: string } }[];
+}
+
+/**
+ * Corpo no formato Chat Completions (compartilhado com servidores OpenAI-compatíveis)
+ */
+export function buildChatCompletionsBody(
+	adapter: ProviderAdapter,
+	request: ProviderRequest,
+	model: string
+): object {
+	return {
+		model,
+		messages: [
+			{
+				role: 'user',
+				content: request.image
+					? [{ type: 'text', text: request.prompt }, adapter.buildImagePart(request.image)]
+					: request.prompt
+			}
+		],
+		max_tokens: request.maxTokens
+	};
+}
+
+export function buildChatCompletionsImagePart(image: ProviderImage): object {
+	const url = image.kind === 'url' ? image.url : `data:${image.mimeType};base64,${image.data}`;
+	return { type: 'image_url', image_url: { url, detail: 'high' } };
+}
+
+export function bearerHeaders(config: ProviderConfig): Record<string, string> {
+	const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+	if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+	return headers;
+}
+
+/**
+ * OpenAI (GPT-4o, GPT-4V) - Chat Completions API
+ */
+export const openaiProvider: ProviderAdapter = {
+	id: 'openai',
+	label: 'OpenAI',
+	local: false,
+	supportsImageUrl: true,
+	defaultEndpoint: 'https://api.openai.com/v1/chat/completions',
+
+	matchesEndpoint: (endpoint) => endpoint.toLowerCase().includes('openai'),
+	buildHeaders: bearerHeaders,
+	buildImagePart: buildChatCompletionsImagePart,
+	buildRequestBody(request, config) {
+		const body = buildChatCompletionsBody(this, request, config.model || 'gpt-4o');
+		// Structured Outputs (não estrito: campos opcionais continuam permitidos)
+		return request.responseSchema
+			? { ...body, response_format: { type: 'json_schema', json_schema: { ...request.responseSchema, strict: false } } }
+			: body;
+	},
+	parseResponse: (data) => (data as ChatCompletionsResponse).choices?.[0]?.message?.content || '',
+	mapError: (status, body) => defaultMapError('openai', status, body)
+};
@@ -0,0 +1,43 @@
+import { ProviderAdapter, defaultMapError } from './types';
+import {
+	ChatCompletionsResponse,
+	bearerHeaders,
+	buildChatCompletionsBody,
+	buildChatCompletionsImagePart
+} from './openai';
+
+type LooseResponse = ChatCompletionsResponse & {
+	message?: { content?: string };
+	content?: { text?: string }[];
+	response?: string;
+};
+
+/**
+ * Servidores com API no formato OpenAI (LM Studio, vLLM, llama.cpp server).
+ * Também é o formato usado quando o provedor não é reconhecido pela URL.
+ */
+export const openaiCompatibleProvider: ProviderAdapter = {
+	id: 'openai-compatible',
+	label: 'OpenAI-compatível',
+	local: true,
+	supportsImageUrl: true,
+	defaultEndpoint: 'http://localhost:1234/v1/chat/completions',
+
+	// Nunca detectado pela URL: escolhido explicitamente ou como fallback
+	matchesEndpoint: () => false,
+	buildHeaders: bearerHeaders,
+	buildImagePart: buildChatCompletionsImagePart,
+	buildRequestBody(request, config) {
+		return buildChatCompletionsBody(this, request, config.model || 'local-model');
+	},
+	// Servidores variados: aceitar também os formatos mais comuns de outras APIs
+	parseResponse: (data) => {
+		const r = data as LooseResponse;
+		return r.choices?.[0]?.message?.content
+			|| r.message?.content
+			|| r.content?.[0]?.text
+			|| r.response
+			|| JSON.stringify(data);
+	},
+	mapError: (status, body) => defaultMapError('openai-compatible', status, body)
+};
@@ -0,0 +1,87 @@
+/**
+ * Contrato dos adaptadores de provedor de IA
+ * Cada provedor (OpenAI, Claude, Gemini, Ollama...) é um módulo que implementa
+ * ProviderAdapter; o IAClient monta todas as requisições através dele.
+ */
+
+/**
+ * Imagem enviada junto com o prompt
+ */
+export type ProviderImage =
+	| { kind: 'base64'; data: string; mimeType: string }
+	| { kind: 'url'; url: string };
+
+/**
+ * Pedido independente de provedor
+ */
+export interface ProviderRequest {
+	prompt: string;
+	image?: ProviderImage;
+	maxTokens: number;
+	/** Esquema JSON esperado, para provedores com saída estruturada (JSON mode) */
+	responseSchema?: { name: string; schema: object };
+}
+
+/**
+ * Configuração da conexão com o provedor
+ */
+export interface ProviderConfig {
+	endpoint: string;
+	apiKey?: string;
+	model?: string;
+}
+
+export interface ProviderAdapter {
+	/** Identificador usado em svgA11yAssist.provider */
+	readonly id: string;
+	/** Nome exibido ao usuário */
+	readonly label: string;
+	/** Provedor local/self-hosted: dispensa chave de API */
+	readonly local: boolean;
+	/** Aceita imagens por URL; caso contrário o IAClient baixa e envia em Base64 */
+	readonly supportsImageUrl: boolean;
+	/** Endpoint sugerido ao configurar o provedor */
+	readonly defaultEndpoint?: string;
+
+	/** Reconhece o provedor pela URL do endpoint (modo "auto") */
+	matchesEndpoint(endpoint: string): boolean;
+	/** Cabeçalhos HTTP, incluindo autenticação */
+	buildHeaders(config: ProviderConfig): Record<string, string>;
+	/** Parte de imagem no formato do provedor */
+	buildImagePart(image: ProviderImage): object;
+	/** Corpo completo da requisição */
+	buildRequestBody(request: ProviderRequest, config: ProviderConfig): object;
+	/** Extrai o texto gerado da resposta JSON */
+	parseResponse(data: unknown): string;
+	/** Converte uma resposta HTTP de erro em exceção legível */
+	mapError(status: number, body: string): ProviderError;
+}
+
+/**
+ * Erro retornado pela API do provedor
+ */
+export class ProviderError extends Error {
+	constructor(
+		message: string,
+		readonly provider: string,
+		readonly status: number
+	) {
+		super(message);
+		this.name = 'ProviderError';
+	}
+}
+
+/**
+ * Mapeamento de erro padrão: usa error.message (formato comum às APIs) ou o corpo bruto
+ */
+export function defaultMapError(provider: string, status: number, body: string): ProviderError {
+	let detail = body.slice(0, 200);
+	try {
+		const parsed = JSON.parse(body);
+		const message = typeof parsed.error === 'string' ? parsed.error : parsed.error?.message;
+		if (message) detail = String(message);
+	} catch {
+		// corpo não é JSON
+	}
+	return new ProviderError(`HTTP ${status}: ${detail}`, provider, status);
+}
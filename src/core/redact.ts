@@ -0,0 +1,33 @@
+/**
+ * Remoção de segredos e payloads grandes antes de registrar requisições
+ */
+
+/** Sequências Base64 longas (imagens) são substituídas pelo tamanho */
+const BASE64_RUN = /[A-Za-z0-9+/]{200,}={0,2}/g;
+
+/**
+ * Remove segredos de um texto (chave literal e parâmetros key=/api_key= de URLs)
+ */
+export function redactSecrets(text: string, secrets: (string | undefined)[]): string {
+	let redacted = text;
+	for (const secret of secrets) {
+		if (secret && secret.length >= 4) redacted = redacted.split(secret).join('***');
+	}
+	return redacted.replace(/([?&](?:api_?key|key|token)=)[^&\s"]+/gi, '$1***');
+}
+
+/**
+ * Substitui payloads Base64 (imagens) por um resumo com o tamanho
+ */
+export function redactPayload(text: string): string {
+	return text.replace(BASE64_RUN, (run) => `<base64: ${run.length} caracteres>`);
+}
+
+/** Cabeçalhos que carregam credenciais */
+const SECRET_HEADERS = /^(authorization|x-api-key|x-goog-api-key|api-key)$/i;
+
+export function redactHeaders(headers: Record<string, string>): Record<string, string> {
+	return Object.fromEntries(
+		Object.entries(headers).map(([name, value]) => [name, SECRET_HEADERS.test(name) ? '***' : value])
+	);
+}
@@ -0,0 +1,187 @@
+import type { WCAGAnalysis } from './iaClient';
+import {
+	A11yFinding,
+	A11yRuleId,
+	DIAGNOSTIC_CODE_SVG,
+	DIAGNOSTIC_CODE_IMG,
+	createPositionResolver
+} from './audit';
+
+/**
+ * Metadados WCAG de cada regra, usados nos relatórios
+ */
+export interface A11yRuleMetadata {
+	id: A11yRuleId;
+	name: string;
+	description: string;
+	wcagCriterion: string;
+	wcagLevel: 'A' | 'AA' | 'AAA';
+	helpUri: string;
+}
+
+export const RULES: Record<A11yRuleId, A11yRuleMetadata> = {
+	[DIAGNOSTIC_CODE_SVG]: {
+		id: DIAGNOSTIC_CODE_SVG,
+		name: 'SvgMissingAccessibleName',
+		description: 'SVG sem <title>/<desc> ou aria-hidden="true".',
+		wcagCriterion: '1.1.1',
+		wcagLevel: 'A',
+		helpUri: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html'
+	},
+	[DIAGNOSTIC_CODE_IMG]: {
+		id: DIAGNOSTIC_CODE_IMG,
+		name: 'ImgMissingAlt',
+		description: 'Imagem sem atributo alt (nem aria-hidden/role="presentation").',
+		wcagCriterion: '1.1.1',
+		wcagLevel: 'A',
+		helpUri: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html'
+	}
+};
+
+/**
+ * Item do relatório: uma falha (ou um elemento já corrigido pela IA)
+ */
+export interface ReportEntry {
+	file: string; // caminho relativo à raiz (POSIX)
+	rule: A11yRuleId;
+	message: string;
+	status: 'open' | 'fixed';
+	line: number;      // base 1
+	column: number;    // base 1
+	endLine: number;   // base 1
+	endColumn: number; // base 1
+	/** Análise WCAG da última execução de IA para o elemento, se houver */
+	wcagAnalysis?: WCAGAnalysis;
+	/** Texto alternativo sugerido/aplicado pela IA, se houver */
+	suggestedText?: string;
+}
+
+export interface ReportOptions {
+	toolVersion?: string;
+	/** URI da raiz (ex: file:///projeto/) usada como base dos caminhos no SARIF */
+	rootUri?: string;
+}
+
+const TOOL_NAME = 'A11Y Assist';
+const TOOL_INFORMATION_URI = 'https://www.w3.org/WAI/WCAG22/quickref/#non-text-content';
+
+/**
+ * Converte as falhas de um arquivo em entradas de relatório (linhas/colunas base 1)
+ */
+export function toReportEntries(file: string, text: string, findings: A11yFinding[]): ReportEntry[] {
+	const positionAt = createPositionResolver(text);
+	return findings.map((f) => {
+		const start = positionAt(f.start);
+		const end = positionAt(f.end);
+		return {
+			file,
+			rule: f.rule,
+			message: f.message,
+			status: 'open',
+			line: start.line + 1,
+			column: start.character + 1,
+			endLine: end.line + 1,
+			endColumn: end.character + 1
+		};
+	});
+}
+
+function sortEntries(entries: ReportEntry[]): ReportEntry[] {
+	return [...entries].sort(
+		(a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column
+	);
+}
+
+/**
+ * Relatório JSON simples
+ */
+export function buildJsonReport(entries: ReportEntry[], options: ReportOptions = {}): object {
+	const sorted = sortEntries(entries);
+	const open = sorted.filter((e) => e.status === 'open');
+	return {
+		tool: { name: TOOL_NAME, version: options.toolVersion ?? 'unknown' },
+		generatedAt: new Date().toISOString(),
+		summary: {
+			total: open.length,
+			files: new Set(open.map((e) => e.file)).size,
+			byRule: Object.fromEntries(
+				Object.keys(RULES).map((id) => [id, open.filter((e) => e.rule === id).length])
+			),
+			fixed: sorted.length - open.length
+		},
+		rules: Object.values(RULES),
+		results: sorted.map((e) => ({
+			...e,
+			wcagCriterion: RULES[e.rule].wcagCriterion,
+			wcagLevel: RULES[e.rule].wcagLevel
+		}))
+	};
+}
+
+/**
+ * Relatório SARIF 2.1.0 (compatível com GitHub Code Scanning e dashboards de qualidade)
+ */
+export function buildSarifReport(entries: ReportEntry[], options: ReportOptions = {}): object {
+	const rules = Object.values(RULES);
+	const ruleIndex = new Map(rules.map((r, i) => [r.id, i]));
+
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: TOOL_NAME,
+						version: options.toolVersion,
+						informationUri: TOOL_INFORMATION_URI,
+						rules: rules.map((r) => ({
+							id: r.id,
+							name: r.name,
+							shortDescription: { text: r.description },
+							helpUri: r.helpUri,
+							defaultConfiguration: { level: 'warning' },
+							properties: {
+								tags: ['accessibility', 'wcag22', `wcag${r.wcagCriterion.replace(/\./g, '')}`],
+								wcagCriterion: r.wcagCriterion,
+								wcagLevel: r.wcagLevel
+							}
+						}))
+					}
+				},
+				...(options.rootUri
+					? { originalUriBaseIds: { SRCROOT: { uri: options.rootUri.endsWith('/') ? options.rootUri : options.rootUri + '/' } } }
+					: {}),
+				results: sortEntries(entries).map((e) => ({
+					ruleId: e.rule,
+					ruleIndex: ruleIndex.get(e.rule),
+					kind: e.status === 'open' ? 'fail' : 'pass',
+					level: e.status === 'open' ? 'warning' : 'none',
+					// Mensagem já traduzida pelo chamador (o texto aplicado fica em properties.suggestedText)
+					message: { text: e.message },
+					locations: [
+						{
+							physicalLocation: {
+								artifactLocation: {
+									uri: encodeURI(e.file),
+									...(options.rootUri ? { uriBaseId: 'SRCROOT' } : {})
+								},
+								region: {
+									startLine: e.line,
+									startColumn: e.column,
+									endLine: e.endLine,
+									endColumn: e.endColumn
+								}
+							}
+						}
+					],
+					properties: {
+						wcagCriterion: RULES[e.rule].wcagCriterion,
+						...(e.suggestedText !== undefined ? { suggestedText: e.suggestedText } : {}),
+						...(e.wcagAnalysis ? { wcagAnalysis: e.wcagAnalysis } : {})
+					}
+				}))
+			}
+		]
+	};
+}
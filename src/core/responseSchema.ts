@@ -0,0 +1,450 @@
+import type { WCAGAnalysisResponse } from './prompt';
+import type { AltTextAlternative, IAResponseSuggestion, WCAGAnalysis } from './iaClient';
+import { normalizeLanguageTag } from './outputLanguage';
+
+/**
+ * Validação das respostas JSON do LLM
+ * Extrai os objetos JSON da resposta (tolerando blocos ```json, texto em volta
+ * e vários objetos), valida contra o esquema esperado e converte para
+ * IAResponseSuggestion. Respostas inválidas geram ResponseValidationError.
+ */
+
+/** Formato pedido no prompt: WCAG completo (SVG) ou simples (<img>) */
+export type ResponseFormat = 'wcag' | 'simple';
+
+/** Resposta no formato simples dos prompts de <img> */
+export interface SimpleSuggestionResponse {
+	isDecorative: boolean;
+	titleText: string;
+	descText?: string;
+	alternatives?: AltTextAlternative[];
+	translations?: Record<string, { titleText: string; descText?: string }>;
+}
+
+/**
+ * Resposta do LLM que não corresponde ao esquema (ou sem JSON)
+ */
+export class ResponseValidationError extends Error {
+	constructor(
+		readonly errors: string[],
+		readonly raw: string
+	) {
+		super(`Resposta da IA inválida: ${errors.slice(0, 3).join('; ')}`);
+		this.name = 'ResponseValidationError';
+	}
+}
+
+const CLASSIFICATIONS: WCAGAnalysis['tipoImagem']['classificacao'][] = [
+	'Decorativa',
+	'Funcional',
+	'Informativa',
+	'Complexa',
+	'Captcha',
+	'Texto em Imagem'
+];
+
+/**
+ * JSON Schema das respostas, para provedores com saída estruturada nativa
+ */
+export const RESPONSE_JSON_SCHEMAS: Record<ResponseFormat, { name: string; schema: object }> = {
+	wcag: {
+		name: 'wcag_analysis',
+		schema: {
+			type: 'object',
+			required: ['conformidade', 'tipoImagem', 'recomendacao', 'codigoSugerido'],
+			properties: {
+				conformidade: {
+					type: 'object',
+					required: ['status', 'altObrigatorio', 'justificativa'],
+					properties: {
+						status: { type: 'string', enum: ['conforme', 'não conforme'] },
+						altObrigatorio: { type: 'boolean' },
+						justificativa: { type: 'string' }
+					}
+				},
+				tipoImagem: {
+					type: 'object',
+					required: ['classificacao', 'impacto'],
+					properties: {
+						classificacao: { type: 'string', enum: CLASSIFICATIONS },
+						impacto: { type: 'string' }
+					}
+				},
+				recomendacao: {
+					type: 'object',
+					required: ['altText', 'descricaoLonga'],
+					properties: {
+						altText: { type: 'string' },
+						descricaoLonga: { type: 'string' },
+						solucaoAria: { type: 'string' },
+						alternativas: {
+							type: 'array',
+							items: {
+								type: 'object',
+								required: ['texto', 'confianca'],
+								properties: {
+									texto: { type: 'string' },
+									confianca: { type: 'number', minimum: 0, maximum: 1 },
+									tamanho: { type: 'string', enum: ['curto', 'completo'] }
+								}
+							}
+						}
+					}
+				},
+				codigoSugerido: { type: 'string' },
+				traducoes: {
+					type: 'object',
+					additionalProperties: {
+						type: 'object',
+						required: ['altText'],
+						properties: {
+							altText: { type: 'string' },
+							descricaoLonga: { type: 'string' }
+						}
+					}
+				}
+			}
+		}
+	},
+	simple: {
+		name: 'alt_suggestion',
+		schema: {
+			type: 'object',
+			required: ['isDecorative', 'titleText'],
+			properties: {
+				isDecorative: { type: 'boolean' },
+				titleText: { type: 'string' },
+				descText: { type: 'string' },
+				alternatives: {
+					type: 'array',
+					items: {
+						type: 'object',
+						required: ['text', 'confidence'],
+						properties: {
+							text: { type: 'string' },
+							confidence: { type: 'number', minimum: 0, maximum: 1 },
+							length: { type: 'string', enum: ['short', 'long'] }
+						}
+					}
+				},
+				translations: {
+					type: 'object',
+					additionalProperties: {
+						type: 'object',
+						required: ['titleText'],
+						properties: {
+							titleText: { type: 'string' },
+							descText: { type: 'string' }
+						}
+					}
+				}
+			}
+		}
+	}
+};
+
+// =====================================================
+// Extração tolerante
+// =====================================================
+
+/**
+ * Todos os objetos JSON de nível superior encontrados no texto, na ordem.
+ * Ignora cercas de código e texto em volta; chaves dentro de strings não contam.
+ */
+export function extractJsonObjects(text: string): unknown[] {
+	const unfenced = text.replace(/```[a-zA-Z]*\s*\n?/g, '');
+	const objects: unknown[] = [];
+	let depth = 0;
+	let start = -1;
+	let inString = false;
+	let escaped = false;
+
+	for (let i = 0; i < unfenced.length; i++) {
+		const ch = unfenced[i];
+		if (inString) {
+			if (escaped) escaped = false;
+			else if (ch === '\\') escaped = true;
+			else if (ch === '"') inString = false;
+			continue;
+		}
+		if (ch === '"' && depth > 0) {
+			inString = true;
+		} else if (ch === '{') {
+			if (depth === 0) start = i;
+			depth++;
+		} else if (ch === '}' && depth > 0) {
+			depth--;
+			if (depth === 0) {
+				const candidate = unfenced.slice(start, i + 1);
+				try {
+					objects.push(JSON.parse(candidate));
+				} catch {
+					// Vírgulas finais são o erro mais comum dos modelos
+					try {
+						objects.push(JSON.parse(candidate.replace(/,\s*([}\]])/g, '$1')));
+					} catch {
+						// objeto malformado: segue procurando
+					}
+				}
+			}
+		}
+	}
+	return objects;
+}
+
+// =====================================================
+// Validação
+// =====================================================
+
+type Validation<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Comparação sem acentos/maiúsculas ("decorativa", "Não Conforme"...) */
+function fold(value: string): string {
+	return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+function readBoolean(value: unknown, path: string, errors: string[]): boolean {
+	if (typeof value === 'boolean') return value;
+	if (value === 'true' || value === 'false') return value === 'true';
+	errors.push(`${path}: esperado boolean`);
+	return false;
+}
+
+function readString(value: unknown, path: string, errors: string[], optional = false): string {
+	if (typeof value === 'string') return value;
+	if (optional && (value === undefined || value === null)) return '';
+	errors.push(`${path}: esperado string`);
+	return '';
+}
+
+/**
+ * Lê a lista de alternativas. É opcional: itens inválidos são descartados em vez
+ * de invalidar a resposta inteira. Ordenada pela confiança, sem repetições.
+ */
+function readAlternatives(
+	value: unknown,
+	keys: { text: string; confidence: string; length: string; short: string }
+): AltTextAlternative[] | undefined {
+	if (!Array.isArray(value)) return undefined;
+	const seen = new Set<string>();
+	const alternatives: AltTextAlternative[] = [];
+	for (const item of value) {
+		if (!isObject(item) || typeof item[keys.text] !== 'string') continue;
+		const text = (item[keys.text] as string).trim();
+		if (!text || seen.has(fold(text))) continue;
+		seen.add(fold(text));
+		let confidence = Number(item[keys.confidence]);
+		if (!Number.isFinite(confidence)) confidence = 0;
+		// Alguns modelos respondem em porcentagem
+		if (confidence > 1) confidence /= 100;
+		const length = typeof item[keys.length] === 'string'
+			? (fold(item[keys.length] as string) === keys.short ? 'short' : 'long')
+			: (text.length <= 40 ? 'short' : 'long');
+		alternatives.push({ text, confidence: Math.min(1, Math.max(0, confidence)), length });
+	}
+	return alternatives.length ? alternatives.sort((a, b) => b.confidence - a.confidence) : undefined;
+}
+
+const WCAG_ALTERNATIVE_KEYS = { text: 'texto', confidence: 'confianca', length: 'tamanho', short: 'curto' };
+const SIMPLE_ALTERNATIVE_KEYS = { text: 'text', confidence: 'confidence', length: 'length', short: 'short' };
+
+/**
+ * Lê as traduções por idioma. Também opcional: códigos inválidos e entradas sem
+ * texto são descartados; os códigos são normalizados (pt_br → pt-BR).
+ */
+function readTranslations(
+	value: unknown,
+	keys: { text: string; desc: string }
+): Record<string, { text: string; desc?: string }> | undefined {
+	if (!isObject(value)) return undefined;
+	const translations: Record<string, { text: string; desc?: string }> = {};
+	for (const [locale, entry] of Object.entries(value)) {
+		const code = normalizeLanguageTag(locale);
+		if (!code || !isObject(entry) || typeof entry[keys.text] !== 'string') continue;
+		const text = (entry[keys.text] as string).trim();
+		if (!text) continue;
+		const desc = typeof entry[keys.desc] === 'string' ? (entry[keys.desc] as string).trim() : '';
+		translations[code] = desc ? { text, desc } : { text };
+	}
+	return Object.keys(translations).length ? translations : undefined;
+}
+
+/**
+ * Valida (e normaliza) uma resposta no formato WCAG
+ */
+export function validateWCAGAnalysisResponse(value: unknown): Validation<WCAGAnalysisResponse> {
+	const errors: string[] = [];
+	if (!isObject(value)) return { ok: false, errors: ['resposta: esperado objeto'] };
+
+	const { conformidade, tipoImagem, recomendacao } = value;
+	if (!isObject(conformidade)) errors.push('conformidade: esperado objeto');
+	if (!isObject(tipoImagem)) errors.push('tipoImagem: esperado objeto');
+	if (!isObject(recomendacao)) errors.push('recomendacao: esperado objeto');
+	if (errors.length) return { ok: false, errors };
+	const c = conformidade as Record<string, unknown>;
+	const t = tipoImagem as Record<string, unknown>;
+	const r = recomendacao as Record<string, unknown>;
+
+	const status = readString(c.status, 'conformidade.status', errors);
+	const normalizedStatus = fold(status) === 'conforme'
+		? 'conforme'
+		: fold(status) === 'nao conforme' ? 'não conforme' : undefined;
+	if (status && !normalizedStatus) errors.push(`conformidade.status: valor inesperado "${status}"`);
+
+	const rawClassification = readString(t.classificacao, 'tipoImagem.classificacao', errors);
+	const classificacao = CLASSIFICATIONS.find((k) => fold(k) === fold(rawClassification));
+	if (rawClassification && !classificacao) {
+		errors.push(`tipoImagem.classificacao: "${rawClassification}" não é um de ${CLASSIFICATIONS.join(', ')}`);
+	}
+
+	const altText = readString(r.altText, 'recomendacao.altText', errors);
+	if (classificacao && classificacao !== 'Decorativa' && !altText.trim()) {
+		errors.push('recomendacao.altText: vazio para imagem não decorativa');
+	}
+
+	const response: WCAGAnalysisResponse = {
+		conformidade: {
+			status: normalizedStatus ?? 'não conforme',
+			altObrigatorio: readBoolean(c.altObrigatorio, 'conformidade.altObrigatorio', errors),
+			justificativa: readString(c.justificativa, 'conformidade.justificativa', errors, true)
+		},
+		tipoImagem: {
+			classificacao: classificacao ?? 'Informativa',
+			impacto: readString(t.impacto, 'tipoImagem.impacto', errors, true)
+		},
+		recomendacao: {
+			altText,
+			descricaoLonga: readString(r.descricaoLonga, 'recomendacao.descricaoLonga', errors, true),
+			solucaoAria: readString(r.solucaoAria, 'recomendacao.solucaoAria', errors, true) || undefined,
+			alternativas: readAlternatives(r.alternativas, WCAG_ALTERNATIVE_KEYS)?.map((a) => ({
+				texto: a.text,
+				confianca: a.confidence,
+				tamanho: a.length === 'short' ? 'curto' : 'completo'
+			}))
+		},
+		codigoSugerido: readString(value.codigoSugerido, 'codigoSugerido', errors, true),
+		traducoes: mapTranslations(
+			readTranslations(value.traducoes, { text: 'altText', desc: 'descricaoLonga' }),
+			(t) => ({ altText: t.text, descricaoLonga: t.desc })
+		)
+	};
+	return errors.length ? { ok: false, errors } : { ok: true, value: response };
+}
+
+/**
+ * Valida uma resposta no formato simples ({ isDecorative, titleText, descText })
+ */
+export function validateSimpleSuggestionResponse(value: unknown): Validation<SimpleSuggestionResponse> {
+	const errors: string[] = [];
+	if (!isObject(value)) return { ok: false, errors: ['resposta: esperado objeto'] };
+
+	const isDecorative = readBoolean(value.isDecorative, 'isDecorative', errors);
+	const titleText = readString(value.titleText, 'titleText', errors, isDecorative);
+	if (!isDecorative && !errors.length && !titleText.trim()) {
+		errors.push('titleText: vazio para imagem não decorativa');
+	}
+	const descText = readString(value.descText, 'descText', errors, true);
+	const alternatives = readAlternatives(value.alternatives, SIMPLE_ALTERNATIVE_KEYS);
+	const translations = mapTranslations(
+		readTranslations(value.translations, { text: 'titleText', desc: 'descText' }),
+		(t) => ({ titleText: t.text, descText: t.desc })
+	);
+	return errors.length
+		? { ok: false, errors }
+		: { ok: true, value: { isDecorative, titleText, descText, alternatives, translations } };
+}
+
+function mapTranslations<T, U>(translations: Record<string, T> | undefined, map: (t: T) => U): Record<string, U> | undefined {
+	return translations && Object.fromEntries(Object.entries(translations).map(([code, t]) => [code, map(t)]));
+}
+
+function fromWCAG(response: WCAGAnalysisResponse): IAResponseSuggestion {
+	const isDecorative = response.tipoImagem.classificacao === 'Decorativa';
+	return {
+		isDecorative,
+		titleText: response.recomendacao.altText,
+		descText: response.recomendacao.descricaoLonga,
+		alternatives: isDecorative ? undefined : response.recomendacao.alternativas?.map((a) => ({
+			text: a.texto,
+			confidence: a.confianca,
+			length: a.tamanho === 'curto' ? 'short' : 'long'
+		})),
+		translations: isDecorative ? undefined : mapTranslations(response.traducoes, (t) => ({
+			titleText: t.altText,
+			descText: t.descricaoLonga
+		})),
+		wcagAnalysis: {
+			conformidade: response.conformidade,
+			tipoImagem: response.tipoImagem,
+			codigoSugerido: response.codigoSugerido
+		}
+	};
+}
+
+function fromSimple(response: SimpleSuggestionResponse): IAResponseSuggestion {
+	return {
+		isDecorative: response.isDecorative,
+		titleText: response.isDecorative ? '' : response.titleText,
+		descText: response.descText ?? '',
+		alternatives: response.isDecorative ? undefined : response.alternatives,
+		translations: response.isDecorative ? undefined : response.translations
+	};
+}
+
+/**
+ * Extrai e valida a sugestão da resposta do LLM.
+ * O formato pedido é tentado primeiro; o outro é aceito como alternativa
+ * (modelos às vezes respondem no formato do outro prompt).
+ * @throws ResponseValidationError se nenhum objeto da resposta for válido
+ */
+export function parseSuggestionResponse(text: string, format: ResponseFormat): IAResponseSuggestion {
+	const candidates = extractJsonObjects(text);
+	if (!candidates.length) {
+		throw new ResponseValidationError(['nenhum objeto JSON encontrado na resposta'], text);
+	}
+
+	const validators = format === 'wcag'
+		? [validateWCAGLike, validateSimpleLike]
+		: [validateSimpleLike, validateWCAGLike];
+	let firstErrors: string[] | undefined;
+	for (const validate of validators) {
+		for (const candidate of candidates) {
+			const result = validate(candidate);
+			if (result.ok) return result.value;
+			firstErrors ??= result.errors;
+		}
+	}
+	throw new ResponseValidationError(firstErrors ?? [], text);
+}
+
+function validateWCAGLike(value: unknown): Validation<IAResponseSuggestion> {
+	const result = validateWCAGAnalysisResponse(value);
+	return result.ok ? { ok: true, value: fromWCAG(result.value) } : result;
+}
+
+function validateSimpleLike(value: unknown): Validation<IAResponseSuggestion> {
+	const result = validateSimpleSuggestionResponse(value);
+	return result.ok ? { ok: true, value: fromSimple(result.value) } : result;
+}
+
+/**
+ * Prompt de reparo: pede ao modelo que corrija a própria resposta
+ */
+export function buildRepairPrompt(error: ResponseValidationError, format: ResponseFormat): string {
+	return `Sua resposta anterior não pôde ser usada porque não segue o formato JSON pedido.
+
+Problemas encontrados:
+${error.errors.map((e) => `- ${e}`).join('\n')}
+
+Resposta anterior:
+${error.raw.slice(0, 4000)}
+
+Reescreva a resposta corrigida seguindo exatamente este JSON Schema:
+${JSON.stringify(RESPONSE_JSON_SCHEMAS[format].schema)}
+
+Responda SOMENTE com o JSON válido, sem explicações e sem blocos de código.`;
+}
@@ -0,0 +1,166 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { createHash } from 'node:crypto';
+import type { IAResponseSuggestion } from './iaClient';
+import { log } from './logger';
+
+/**
+ * Cache de sugestões da IA
+ * A chave é um hash do conteúdo analisado (markup normalizado ou bytes da imagem)
+ * + provedor + modelo + versão do prompt: o mesmo ícone repetido em várias
+ * páginas é enviado à IA uma única vez.
+ */
+export interface SuggestionCache {
+	get(key: string): IAResponseSuggestion | undefined;
+	set(key: string, suggestion: IAResponseSuggestion): void;
+}
+
+interface CacheEntry {
+	suggestion: IAResponseSuggestion;
+	createdAt: string;
+}
+
+interface CacheFile {
+	version: number;
+	entries: Record<string, CacheEntry>;
+}
+
+const CACHE_FILE_VERSION = 1;
+
+/** Espera antes de gravar, agrupando as gravações de uma correção em lote */
+const WRITE_DELAY_MS = 500;
+
+/**
+ * Chave do cache: SHA-256 das partes (provedor, modelo, versão do prompt, conteúdo...)
+ */
+export function suggestionCacheKey(parts: (string | number | undefined)[]): string {
+	const hash = createHash('sha256');
+	for (const part of parts) {
+		// Separador nulo evita colisões como ["ab", "c"] x ["a", "bc"]
+		hash.update(String(part ?? '')).update('\0');
+	}
+	return hash.digest('hex');
+}
+
+/**
+ * Normaliza o markup para a chave: diferenças de indentação e quebras de linha
+ * não devem gerar uma nova chamada à IA
+ */
+export function normalizeMarkup(markup: string): string {
+	return markup.replace(/>\s+</g, '><').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Cache persistido em um arquivo JSON (armazenamento global da extensão ou
+ * arquivo versionado no workspace). Carregado sob demanda; gravações adiadas.
+ */
+export class FileSuggestionCache implements SuggestionCache {
+	private entries: Map<string, CacheEntry> | undefined;
+	private writeTimer: NodeJS.Timeout | undefined;
+
+	/**
+	 * @param filePath - Arquivo JSON do cache (criado na primeira gravação)
+	 * @param maxEntries - Limite de entradas; as mais antigas são descartadas
+	 */
+	constructor(
+		readonly filePath: string,
+		private readonly maxEntries = 5000
+	) {}
+
+	get(key: string): IAResponseSuggestion | undefined {
+		return this.load().get(key)?.suggestion;
+	}
+
+	set(key: string, suggestion: IAResponseSuggestion): void {
+		const entries = this.load();
+		// Reinserir move a entrada para o fim (mais recente)
+		entries.delete(key);
+		entries.set(key, { suggestion, createdAt: new Date().toISOString() });
+		while (entries.size > this.maxEntries) {
+			entries.delete(entries.keys().next().value as string);
+		}
+		this.scheduleWrite();
+	}
+
+	get size(): number {
+		return this.load().size;
+	}
+
+	clear(): void {
+		this.entries = new Map();
+		clearTimeout(this.writeTimer);
+		this.writeTimer = undefined;
+		try {
+			fs.rmSync(this.filePath, { force: true });
+		} catch (err) {
+			log.warn(`Erro ao remover cache: ${(err as Error).message}`);
+		}
+	}
+
+	/**
+	 * Grava imediatamente as alterações pendentes
+	 */
+	flush(): void {
+		if (!this.writeTimer) return;
+		clearTimeout(this.writeTimer);
+		this.writeTimer = undefined;
+
+		// Ordenado por chave: diffs estáveis quando o arquivo é versionado
+		const sorted = [...this.load().entries()].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		const data: CacheFile = { version: CACHE_FILE_VERSION, entries: Object.fromEntries(sorted) };
+		try {
+			fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+			fs.writeFileSync(this.filePath, JSON.stringify(data, null, '\t') + '\n', 'utf-8');
+		} catch (err) {
+			log.warn(`Erro ao gravar cache em ${this.filePath}: ${(err as Error).message}`);
+		}
+	}
+
+	private scheduleWrite(): void {
+		if (this.writeTimer) return;
+		this.writeTimer = setTimeout(() => this.flush(), WRITE_DELAY_MS);
+		this.writeTimer.unref?.();
+	}
+
+	private load(): Map<string, CacheEntry> {
+		if (this.entries) return this.entries;
+		this.entries = new Map();
+		try {
+			if (fs.existsSync(this.filePath)) {
+				const data = JSON.parse(fs.readFileSync(this.filePath, 'utf-8')) as CacheFile;
+				if (data.version === CACHE_FILE_VERSION && data.entries) {
+					// Mais antigas primeiro, para o descarte respeitar a idade
+					const loaded = Object.entries(data.entries)
+						.sort(([, a], [, b]) => a.createdAt.localeCompare(b.createdAt));
+					this.entries = new Map(loaded);
+				}
+			}
+		} catch (err) {
+			log.warn(`Cache ignorado (${this.filePath}): ${(err as Error).message}`);
+		}
+		return this.entries;
+	}
+}
+
+/**
+ * Combina caches: a leitura usa o primeiro que tiver a chave (copiando-a para
+ * os anteriores); a gravação vai para todos
+ */
+export class LayeredSuggestionCache implements SuggestionCache {
+	constructor(private readonly layers: SuggestionCache[]) {}
+
+	get(key: string): IAResponseSuggestion | undefined {
+		for (let i = 0; i < this.layers.length; i++) {
+			const hit = this.layers[i].get(key);
+			if (hit) {
+				for (const earlier of this.layers.slice(0, i)) earlier.set(key, hit);
+				return hit;
+			}
+		}
+		return undefined;
+	}
+
+	set(key: string, suggestion: IAResponseSuggestion): void {
+		for (const layer of this.layers) layer.set(key, suggestion);
+	}
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { findImgNodes, findSvgNodes, parseMarkup } from './svgParser';
+
+const imgSrcs = (text: string) => findImgNodes(text, 'jsx').map((n) => n.src);
+
+test('JSX: glob em string não abre comentário', () => {
+	const text = `const accept = 'image/*';\nexport const A = () => <img src="a.png" />;\nexport const B = () => <svg><path d="M0" /></svg>;\n`;
+	assert.deepEqual(imgSrcs(text), ['a.png']);
+	assert.equal(findSvgNodes(text, 'jsx').length, 1);
+});
+
+test('JSX: image/* no texto JSX não abre comentário', () => {
+	const text = `const A = () => <p>Aceita image/* e arquivos</p>;\nconst B = () => <img src="b.png" />;`;
+	assert.deepEqual(imgSrcs(text), ['b.png']);
+});
+
+test('JSX: comentário de linha após código é ignorado', () => {
+	assert.deepEqual(imgSrcs(`const u = "x"; // <img src="c">\nconst A = () => <img src="d.png" />;`), ['d.png']);
+});
+
+test('JSX: comentários de bloco fora do texto JSX são ignorados', () => {
+	assert.deepEqual(imgSrcs(`/* <img src="c"> */\nconst A = () => (\n  <div>{/* <img src="e"> */}<img src="f.png" /></div>\n);`), ['f.png']);
+});
+
+test('JSX: // e aspas no texto JSX são texto', () => {
+	const text = `const A = () => <p>Veja https://example.com e "it's" aqui <img src="g.png" /></p>;`;
+	assert.deepEqual(imgSrcs(text), ['g.png']);
+});
+
+test('JSX: markup dentro de strings e templates não vira elemento', () => {
+	const text = 'const s = "<svg>";\nconst t = `<img src="x"> ${"<svg>"}`;\nconst A = () => <svg><title>Ok</title></svg>;';
+	const svgs = findSvgNodes(text, 'jsx');
+	assert.equal(svgs.length, 1);
+	assert.ok(svgs[0].hasTitle);
+	assert.deepEqual(imgSrcs(text), []);
+});
+
+test('JSX: regex literal não abre string nem comentário', () => {
+	const text = `const re = /['"]|\\/\\*/g;\nconst A = () => <img src="h.png" />;`;
+	assert.deepEqual(imgSrcs(text), ['h.png']);
+});
+
+test('TSX: generics e comparações não viram elementos', () => {
+	const text = `const xs: Array<string> = [];\nconst m = new Map<string, number>();\nif (a < b && c > d) {}\nconst A = () => <img src="i.png" />;`;
+	const names = parseMarkup(text, 'jsx').map((el) => el.localName);
+	assert.deepEqual(names, ['img']);
+});
+
+test('JSX: elementos em expressões dentro de filhos mantêm o pai', () => {
+	const text = `const A = () => <svg>{items.map((i) => <path key={i} d="M0" />)}</svg>;`;
+	const [svg] = parseMarkup(text, 'jsx');
+	assert.equal(svg.localName, 'svg');
+	assert.deepEqual(svg.children.map((c) => c.localName), ['path']);
+	assert.ok(svg.closeTag);
+});
+
+test('HTML: image/* em texto não afeta o parser', () => {
+	assert.equal(findImgNodes('<p>image/*</p><img src="j.png">', 'html').length, 1);
+});
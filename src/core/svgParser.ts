@@ -0,0 +1,787 @@
+// =====================================================
+// Markup Tree Types
+// =====================================================
+
+/**
+ * Dialeto de marcação analisado.
+ * - html: HTML comum (comentários <!-- -->, <script>/<style> como texto bruto)
+ * - jsx: JSX/TSX (atributos {expr}, spreads {...props}, comentários {/* *\/} e //)
+ */
+export type MarkupDialect = 'html' | 'jsx';
+
+export interface MarkupAttribute {
+	name: string;          // nome do atributo como escrito ('' para spread)
+	value: string | null;  // valor sem aspas/chaves; null se atributo booleano ou spread
+	isExpression: boolean; // valor JSX entre chaves {expr}
+	isSpread: boolean;     // spread JSX {...props}
+	start: number;         // index onde o atributo começa
+	end: number;           // index APÓS o final do atributo (incluindo valor)
+	valueRange: { start: number; end: number } | null; // range do valor bruto (com aspas/chaves)
+}
+
+export interface MarkupElement {
+	name: string;      // nome da tag como escrito
+	localName: string; // nome normalizado (minúsculo em HTML, como escrito em JSX)
+	start: number;     // index onde <tag começa
+	end: number;       // index APÓS o fechamento (ou após a tag de abertura se não fechada)
+	openTag: { start: number; end: number };
+	closeTag: { start: number; end: number } | null;
+	nameEnd: number;   // index APÓS o nome da tag de abertura
+	selfClosing: boolean;
+	attributes: MarkupAttribute[];
+	children: MarkupElement[];
+	parent: MarkupElement | null;
+}
+
+/** Elementos HTML sem conteúdo, nunca empilhados na árvore */
+const VOID_ELEMENTS = new Set([
+	'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input',
+	'link', 'meta', 'param', 'source', 'track', 'wbr'
+]);
+
+/** Elementos HTML cujo conteúdo é texto bruto (não contém tags) */
+const RAW_TEXT_ELEMENTS = new Set(['script', 'style']);
+
+/**
+ * Determina o dialeto de marcação a partir do languageId do VS Code
+ */
+export function dialectForLanguage(languageId: string): MarkupDialect {
+	return languageId === 'javascriptreact' || languageId === 'typescriptreact' ? 'jsx' : 'html';
+}
+
+// =====================================================
+// Tolerant Tokenizer / Tree Builder
+// =====================================================
+
+/**
+ * Analisa o texto e retorna a árvore de elementos (raízes).
+ * O parser é tolerante: tags não fechadas são fechadas implicitamente,
+ * fechamentos órfãos são ignorados e trechos que não formam uma tag
+ * válida (ex: `a < b`, generics TS) são tratados como texto.
+ */
+export function parseMarkup(text: string, dialect: MarkupDialect = 'html'): MarkupElement[] {
+	if (dialect === 'jsx') return parseJsx(text);
+
+	const roots: MarkupElement[] = [];
+	const stack: MarkupElement[] = [];
+	let i = 0;
+
+	while (i < text.length) {
+		const ch = text[i];
+
+		if (ch !== '<') {
+			i++;
+			continue;
+		}
+
+		// Comentários HTML, CDATA, doctype e instruções de processamento
+		if (text.startsWith('<!--', i)) {
+			i = skipPast(text, '-->', i + 4);
+			continue;
+		}
+		if (text.startsWith('<![CDATA[', i)) {
+			i = skipPast(text, ']]>', i + 9);
+			continue;
+		}
+		if (text[i + 1] === '!' || text[i + 1] === '?') {
+			i = skipPast(text, '>', i + 2);
+			continue;
+		}
+
+		// Tag de fechamento
+		if (text[i + 1] === '/') {
+			const close = readCloseTag(text, i, dialect);
+			if (!close) {
+				i++;
+				continue;
+			}
+			closeElement(stack, close, dialect);
+			i = close.end;
+			continue;
+		}
+
+		// Tag de abertura
+		const el = readOpenTag(text, i, dialect);
+		if (!el) {
+			i++;
+			continue;
+		}
+		attachElement(el, stack, roots);
+		i = el.openTag.end;
+
+		if (el.selfClosing || VOID_ELEMENTS.has(el.localName)) {
+			continue;
+		}
+
+		if (dialect === 'html' && RAW_TEXT_ELEMENTS.has(el.localName)) {
+			const closeStart = indexOfIgnoreCase(text, `</${el.localName}`, i);
+			if (closeStart === -1) {
+				el.end = text.length;
+				i = text.length;
+				continue;
+			}
+			const closeEnd = skipPast(text, '>', closeStart);
+			el.closeTag = { start: closeStart, end: closeEnd };
+			el.end = closeEnd;
+			i = closeEnd;
+			continue;
+		}
+
+		stack.push(el);
+	}
+
+	// Elementos nunca fechados permanecem com end = fim da tag de abertura
+	return roots;
+}
+
+/** Contexto do scanner JSX: código JS, filhos de um elemento JSX ou template literal */
+type JsxFrame =
+	| { kind: 'code'; depth: number }
+	| { kind: 'children'; el: MarkupElement }
+	| { kind: 'template' };
+
+/**
+ * Parser de JSX/TSX: no código JS, strings, template literals, regex e
+ * comentários são ignorados, e `<` só abre um elemento onde cabe uma expressão
+ * (não em `a < b` nem em `Array<string>`). No texto JSX entre tags, aspas,
+ * `//` e `/*` são texto comum; `{...}` volta ao código.
+ */
+function parseJsx(text: string): MarkupElement[] {
+	const roots: MarkupElement[] = [];
+	const stack: MarkupElement[] = [];
+	const frames: JsxFrame[] = [{ kind: 'code', depth: 0 }];
+	let i = 0;
+
+	const open = (start: number): number => {
+		const el = readOpenTag(text, start, 'jsx');
+		if (!el) return start + 1;
+		attachElement(el, stack, roots);
+		if (!el.selfClosing && !VOID_ELEMENTS.has(el.localName)) {
+			stack.push(el);
+			frames.push({ kind: 'children', el });
+		}
+		return el.openTag.end;
+	};
+
+	while (i < text.length) {
+		const frame = frames[frames.length - 1];
+		const ch = text[i];
+
+		if (frame.kind === 'template') {
+			if (ch === '\\') {
+				i += 2;
+			} else if (ch === '`') {
+				frames.pop();
+				i++;
+			} else if (ch === '$' && text[i + 1] === '{') {
+				frames.push({ kind: 'code', depth: 0 });
+				i += 2;
+			} else {
+				i++;
+			}
+			continue;
+		}
+
+		if (frame.kind === 'children') {
+			if (ch === '{') {
+				frames.push({ kind: 'code', depth: 0 });
+				i++;
+			} else if (ch === '<' && text[i + 1] === '/') {
+				const close = readCloseTag(text, i, 'jsx');
+				if (!close) {
+					i++;
+					continue;
+				}
+				const el = closeElement(stack, close, 'jsx');
+				// Descarta os contextos até o elemento fechado (inclusive os fechados implicitamente)
+				while (el && frames.length > 1) {
+					const popped = frames.pop()!;
+					if (popped.kind === 'children' && popped.el === el) break;
+				}
+				i = close.end;
+			} else if (ch === '<') {
+				i = open(i);
+			} else {
+				i++;
+			}
+			continue;
+		}
+
+		// Código JS
+		if (ch === '"' || ch === "'") {
+			i = skipJsString(text, i, ch);
+		} else if (ch === '`') {
+			frames.push({ kind: 'template' });
+			i++;
+		} else if (ch === '/' && text[i + 1] === '/') {
+			i = skipLine(text, i);
+		} else if (ch === '/' && text[i + 1] === '*') {
+			i = skipPast(text, '*/', i + 2);
+		} else if (ch === '/' && expressionAllowed(text, i)) {
+			i = skipRegex(text, i);
+		} else if (ch === '{') {
+			frame.depth++;
+			i++;
+		} else if (ch === '}') {
+			// Fim de {expressão} em JSX ou de ${...} em template literal
+			if (frame.depth > 0) frame.depth--;
+			else if (frames.length > 1) frames.pop();
+			i++;
+		} else if (ch === '<' && expressionAllowed(text, i)) {
+			i = open(i);
+		} else {
+			i++;
+		}
+	}
+
+	// Elementos nunca fechados permanecem com end = fim da tag de abertura
+	return roots;
+}
+
+/** Palavras após as quais começa uma expressão (ex: return <svg/>, return /re/) */
+const EXPRESSION_KEYWORDS = new Set([
+	'return', 'case', 'do', 'else', 'in', 'of', 'typeof', 'void', 'yield', 'await', 'delete', 'throw', 'new'
+]);
+
+/**
+ * Em código JS, a posição `i` pode iniciar uma expressão? Decide se `<` abre JSX
+ * e `/` abre uma regex (e não uma comparação, generic TS ou divisão).
+ */
+function expressionAllowed(text: string, i: number): boolean {
+	let k = i - 1;
+	while (k >= 0 && isWhitespace(text[k])) k--;
+	if (k < 0) return true;
+	const ch = text[k];
+	if (/[\w$]/.test(ch)) {
+		let wordStart = k;
+		while (wordStart > 0 && /[\w$]/.test(text[wordStart - 1])) wordStart--;
+		return EXPRESSION_KEYWORDS.has(text.slice(wordStart, k + 1));
+	}
+	return !/[)\]}"'`.]/.test(ch);
+}
+
+/**
+ * Avança sobre uma regex literal começando em `start` (posição da `/`), incluindo as flags
+ */
+function skipRegex(text: string, start: number): number {
+	let i = start + 1;
+	let inClass = false;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === '\n') return i; // não era regex: tolerar
+		if (inClass) {
+			if (ch === ']') inClass = false;
+		} else if (ch === '[') {
+			inClass = true;
+		} else if (ch === '/') {
+			i++;
+			while (i < text.length && /[a-z]/i.test(text[i])) i++;
+			return i;
+		}
+		i++;
+	}
+	return text.length;
+}
+
+function attachElement(el: MarkupElement, stack: MarkupElement[], roots: MarkupElement[]): void {
+	const parent = stack.length ? stack[stack.length - 1] : null;
+	el.parent = parent;
+	if (parent) parent.children.push(el);
+	else roots.push(el);
+}
+
+/**
+ * Fecha o elemento aberto correspondente (e, implicitamente, os abertos acima dele).
+ * Retorna o elemento fechado, ou null para fechamento órfão.
+ */
+function closeElement(
+	stack: MarkupElement[],
+	close: { name: string; start: number; end: number },
+	dialect: MarkupDialect
+): MarkupElement | null {
+	const idx = findOpenIndex(stack, normalizeName(close.name, dialect));
+	if (idx === -1) return null;
+	while (stack.length - 1 > idx) {
+		const unclosed = stack.pop()!;
+		unclosed.end = close.start;
+	}
+	const el = stack.pop()!;
+	el.closeTag = { start: close.start, end: close.end };
+	el.end = close.end;
+	return el;
+}
+
+function normalizeName(name: string, dialect: MarkupDialect): string {
+	return dialect === 'html' ? name.toLowerCase() : name;
+}
+
+function findOpenIndex(stack: MarkupElement[], localName: string): number {
+	for (let k = stack.length - 1; k >= 0; k--) {
+		if (stack[k].localName === localName) return k;
+	}
+	return -1;
+}
+
+function isNameStart(ch: string | undefined): boolean {
+	return !!ch && /[A-Za-z_$]/.test(ch);
+}
+
+function isTagNameChar(ch: string | undefined): boolean {
+	return !!ch && /[\w.:\-$]/.test(ch);
+}
+
+function isAttrNameChar(ch: string | undefined, dialect: MarkupDialect): boolean {
+	if (!ch) return false;
+	if (dialect === 'jsx') return /[\w:\-.$]/.test(ch);
+	// HTML aceita quase tudo no nome (ex: @click, :prop, [attr], (event))
+	return !/[\s"'<>/=]/.test(ch);
+}
+
+function isWhitespace(ch: string | undefined): boolean {
+	return ch === ' ' || ch === '\t' || ch === '\n' || ch === '\r' || ch === '\f';
+}
+
+function skipPast(text: string, token: string, from: number): number {
+	const idx = text.indexOf(token, from);
+	return idx === -1 ? text.length : idx + token.length;
+}
+
+function skipLine(text: string, from: number): number {
+	const idx = text.indexOf('\n', from);
+	return idx === -1 ? text.length : idx + 1;
+}
+
+function indexOfIgnoreCase(text: string, token: string, from: number): number {
+	const lowerToken = token.toLowerCase();
+	for (let k = from; k <= text.length - token.length; k++) {
+		if (text.slice(k, k + token.length).toLowerCase() === lowerToken) return k;
+	}
+	return -1;
+}
+
+function readCloseTag(
+	text: string,
+	start: number,
+	dialect: MarkupDialect
+): { name: string; start: number; end: number } | null {
+	let i = start + 2;
+	// Fechamento de fragmento JSX: </>
+	if (dialect === 'jsx' && text[i] === '>') {
+		return { name: '', start, end: i + 1 };
+	}
+	if (!isNameStart(text[i])) return null;
+	const nameStart = i;
+	while (isTagNameChar(text[i])) i++;
+	const name = text.slice(nameStart, i);
+	while (isWhitespace(text[i])) i++;
+	if (text[i] !== '>') return null;
+	return { name, start, end: i + 1 };
+}
+
+/**
+ * Lê uma tag de abertura a partir de `start` (posição do `<`).
+ * Retorna null se o trecho não formar uma tag válida.
+ */
+function readOpenTag(text: string, start: number, dialect: MarkupDialect): MarkupElement | null {
+	let i = start + 1;
+
+	// Fragmento JSX: <>
+	if (dialect === 'jsx' && text[i] === '>') {
+		return createElement('', '', start, i, i + 1, false, []);
+	}
+
+	if (!isNameStart(text[i])) return null;
+	const nameStart = i;
+	while (isTagNameChar(text[i])) i++;
+	const name = text.slice(nameStart, i);
+	const nameEnd = i;
+	const attributes: MarkupAttribute[] = [];
+
+	while (i < text.length) {
+		const attrGap = i;
+		while (isWhitespace(text[i])) i++;
+		const ch = text[i];
+
+		if (ch === '>') {
+			return createElement(name, normalizeName(name, dialect), start, nameEnd, i + 1, false, attributes);
+		}
+		if (ch === '/' && text[i + 1] === '>') {
+			return createElement(name, normalizeName(name, dialect), start, nameEnd, i + 2, true, attributes);
+		}
+		if (ch === '/' && dialect === 'html') {
+			// Barra solta em HTML (ex: <br / >) é ignorada
+			i++;
+			continue;
+		}
+
+		// Em JSX, atributos precisam de espaço entre si
+		if (dialect === 'jsx' && i === attrGap && attributes.length > 0) return null;
+
+		// Spread JSX: {...props}
+		if (dialect === 'jsx' && ch === '{') {
+			const exprEnd = skipJsExpression(text, i);
+			if (exprEnd === -1) return null;
+			attributes.push({
+				name: '',
+				value: null,
+				isExpression: true,
+				isSpread: /^\{\s*\.\.\./.test(text.slice(i, exprEnd)),
+				start: i,
+				end: exprEnd,
+				valueRange: { start: i, end: exprEnd }
+			});
+			i = exprEnd;
+			continue;
+		}
+
+		if (!isAttrNameChar(ch, dialect)) return null;
+		const attrStart = i;
+		while (isAttrNameChar(text[i], dialect)) i++;
+		const attrName = text.slice(attrStart, i);
+
+		// Verificar se há valor
+		let k = i;
+		while (isWhitespace(text[k])) k++;
+		if (text[k] !== '=') {
+			attributes.push({
+				name: attrName,
+				value: null,
+				isExpression: false,
+				isSpread: false,
+				start: attrStart,
+				end: i,
+				valueRange: null
+			});
+			continue;
+		}
+		k++;
+		while (isWhitespace(text[k])) k++;
+
+		const valueStart = k;
+		const q = text[k];
+		if (q === '"' || q === "'") {
+			const close = text.indexOf(q, k + 1);
+			if (close === -1) return null;
+			attributes.push({
+				name: attrName,
+				value: text.slice(k + 1, close),
+				isExpression: false,
+				isSpread: false,
+				start: attrStart,
+				end: close + 1,
+				valueRange: { start: valueStart, end: close + 1 }
+			});
+			i = close + 1;
+		} else if (q === '{' && dialect === 'jsx') {
+			const exprEnd = skipJsExpression(text, k);
+			if (exprEnd === -1) return null;
+			attributes.push({
+				name: attrName,
+				value: unwrapJsLiteral(text.slice(k + 1, exprEnd - 1)),
+				isExpression: true,
+				isSpread: false,
+				start: attrStart,
+				end: exprEnd,
+				valueRange: { start: valueStart, end: exprEnd }
+			});
+			i = exprEnd;
+		} else {
+			// Valor sem aspas (HTML)
+			while (k < text.length && !isWhitespace(text[k]) && text[k] !== '>') k++;
+			if (k === valueStart) return null;
+			attributes.push({
+				name: attrName,
+				value: text.slice(valueStart, k),
+				isExpression: false,
+				isSpread: false,
+				start: attrStart,
+				end: k,
+				valueRange: { start: valueStart, end: k }
+			});
+			i = k;
+		}
+	}
+
+	return null;
+}
+
+function createElement(
+	name: string,
+	localName: string,
+	start: number,
+	nameEnd: number,
+	openEnd: number,
+	selfClosing: boolean,
+	attributes: MarkupAttribute[]
+): MarkupElement {
+	return {
+		name,
+		localName,
+		start,
+		end: openEnd,
+		openTag: { start, end: openEnd },
+		closeTag: null,
+		nameEnd,
+		selfClosing,
+		attributes,
+		children: [],
+		parent: null
+	};
+}
+
+/**
+ * Avança sobre uma expressão JS entre chaves começando em `start` (posição do `{`).
+ * Trata chaves aninhadas, strings, template literals e comentários.
+ * Retorna o index APÓS o `}` correspondente, ou -1 se não fechar.
+ */
+function skipJsExpression(text: string, start: number): number {
+	let depth = 0;
+	let i = start;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '{') {
+			depth++;
+			i++;
+		} else if (ch === '}') {
+			depth--;
+			i++;
+			if (depth === 0) return i;
+		} else if (ch === '"' || ch === "'") {
+			i = skipJsString(text, i, ch);
+		} else if (ch === '`') {
+			i = skipTemplateLiteral(text, i);
+		} else if (ch === '/' && text[i + 1] === '*') {
+			i = skipPast(text, '*/', i + 2);
+		} else if (ch === '/' && text[i + 1] === '/') {
+			i = skipLine(text, i);
+		} else {
+			i++;
+		}
+		if (i === -1) return -1;
+	}
+	return -1;
+}
+
+function skipJsString(text: string, start: number, quote: string): number {
+	let i = start + 1;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === quote) return i + 1;
+		if (ch === '\n') return i; // string quebrada: tolerar
+		i++;
+	}
+	return text.length;
+}
+
+function skipTemplateLiteral(text: string, start: number): number {
+	let i = start + 1;
+	while (i < text.length) {
+		const ch = text[i];
+		if (ch === '\\') {
+			i += 2;
+			continue;
+		}
+		if (ch === '`') return i + 1;
+		if (ch === '$' && text[i + 1] === '{') {
+			const end = skipJsExpression(text, i + 1);
+			if (end === -1) return -1;
+			i = end;
+			continue;
+		}
+		i++;
+	}
+	return text.length;
+}
+
+/**
+ * Desembrulha literais simples de expressões JSX: {"x"}, {'x'}, {`x`}, {true}.
+ * Para expressões arbitrárias retorna o código-fonte da expressão.
+ */
+function unwrapJsLiteral(expr: string): string {
+	const trimmed = expr.trim();
+	const literal = trimmed.match(/^(["'])([\s\S]*)\1$/) || trimmed.match(/^(`)([^`$]*)`$/);
+	if (literal) return literal[2];
+	return trimmed;
+}
+
+// =====================================================
+// Tree Helpers
+// =====================================================
+
+/**
+ * Percorre a árvore em profundidade (pré-ordem)
+ */
+export function walkElements(roots: MarkupElement[], visit: (el: MarkupElement) => void): void {
+	const stack = [...roots].reverse();
+	while (stack.length) {
+		const el = stack.pop()!;
+		visit(el);
+		for (let k = el.children.length - 1; k >= 0; k--) stack.push(el.children[k]);
+	}
+}
+
+/**
+ * Retorna o atributo com o nome informado (case-insensitive), ignorando spreads
+ */
+export function getAttribute(el: { attributes: MarkupAttribute[] }, name: string): MarkupAttribute | undefined {
+	const lower = name.toLowerCase();
+	return el.attributes.find((a) => !a.isSpread && a.name.toLowerCase() === lower);
+}
+
+/**
+ * Index onde novos atributos devem ser inseridos na tag de abertura
+ * (após o último atributo, ou logo após o nome da tag)
+ */
+export function attributeInsertOffset(el: MarkupElement): number {
+	const last = el.attributes[el.attributes.length - 1];
+	return last ? last.end : el.nameEnd;
+}
+
+function hasAncestor(el: MarkupElement, localName: string): boolean {
+	for (let p = el.parent; p; p = p.parent) {
+		if (p.localName === localName) return true;
+	}
+	return false;
+}
+
+function isTrueAttribute(attr: MarkupAttribute | undefined, dialect: MarkupDialect): boolean {
+	if (!attr) return false;
+	// Em JSX, atributo booleano sem valor equivale a {true}
+	if (attr.value === null) return dialect === 'jsx' && !attr.isSpread;
+	return attr.value.trim().toLowerCase() === 'true';
+}
+
+// =====================================================
+// SVG Node Types
+// =====================================================
+
+export interface SvgNodeRange {
+	start: number; // index in document text where <svg starts
+	end: number;   // index AFTER the closing tag
+	content: string; // raw svg xml
+	hasTitle: boolean;
+	hasDesc: boolean;
+	hasAriaHidden: boolean;
+	tagOpenRange: { start: number; end: number }; // range of opening <svg ...>
+	selfClosing: boolean; // <svg ... /> sem filhos
+	attributes: MarkupAttribute[];
+	element: MarkupElement;
+}
+
+/**
+ * Encontra os <svg> de nível mais externo (SVGs aninhados fazem parte do gráfico pai)
+ */
+export function findSvgNodes(text: string, dialect: MarkupDialect = 'html'): SvgNodeRange[] {
+	const results: SvgNodeRange[] = [];
+	walkElements(parseMarkup(text, dialect), (el) => {
+		if (el.localName !== 'svg' || hasAncestor(el, 'svg')) return;
+		// SVG sem fechamento (ex: ainda sendo digitado) é ignorado
+		if (!el.closeTag && !el.selfClosing) return;
+		const hasTitle = el.children.some((c) => c.localName === 'title');
+		const hasDesc = el.children.some((c) => c.localName === 'desc');
+		const hasAriaHidden = isTrueAttribute(getAttribute(el, 'aria-hidden'), dialect);
+		results.push({
+			start: el.start,
+			end: el.end,
+			content: text.slice(el.start, el.end),
+			hasTitle,
+			hasDesc,
+			hasAriaHidden,
+			tagOpenRange: { start: el.openTag.start, end: el.openTag.end },
+			selfClosing: el.selfClosing,
+			attributes: el.attributes,
+			element: el
+		});
+	});
+	return results;
+}
+
+export function needsAccessibility(node: SvgNodeRange): boolean {
+	return !node.hasAriaHidden && !(node.hasTitle || node.hasDesc);
+}
+
+// =====================================================
+// IMG Node Types
+// =====================================================
+
+export interface ImgNodeRange {
+	start: number;        // index onde <img começa
+	end: number;          // index APÓS o final da tag (> ou />)
+	content: string;      // tag <img ...> completa
+	src: string;          // valor do atributo src
+	alt: string | null;   // valor do alt (null se ausente)
+	hasAlt: boolean;      // se o atributo alt existe
+	hasAriaHidden: boolean;
+	hasRole: boolean;     // se tem role="presentation" ou role="none"
+	tagRange: { start: number; end: number };
+	selfClosing: boolean; // <img ... />
+	attributes: MarkupAttribute[];
+	element: MarkupElement;
+}
+
+/**
+ * Encontra todas as tags <img> no texto
+ */
+export function findImgNodes(text: string, dialect: MarkupDialect = 'html'): ImgNodeRange[] {
+	const results: ImgNodeRange[] = [];
+
+	walkElements(parseMarkup(text, dialect), (el) => {
+		if (el.localName !== 'img') return;
+
+		const srcAttr = getAttribute(el, 'src');
+		const altAttr = getAttribute(el, 'alt');
+		const role = getAttribute(el, 'role')?.value?.trim().toLowerCase();
+
+		results.push({
+			start: el.openTag.start,
+			end: el.openTag.end,
+			content: text.slice(el.openTag.start, el.openTag.end),
+			src: srcAttr?.value ?? '',
+			alt: altAttr ? altAttr.value ?? '' : null,
+			hasAlt: altAttr !== undefined,
+			hasAriaHidden: isTrueAttribute(getAttribute(el, 'aria-hidden'), dialect),
+			hasRole: role === 'presentation' || role === 'none',
+			tagRange: { start: el.openTag.start, end: el.openTag.end },
+			selfClosing: el.selfClosing,
+			attributes: el.attributes,
+			element: el
+		});
+	});
+
+	return results;
+}
+
+/**
+ * Verifica se uma tag <img> precisa de correção de acessibilidade
+ * Regras WCAG 2.2:
+ * - Imagem precisa de alt="" (vazio para decorativa, descritivo para informativa)
+ * - Ou aria-hidden="true" + role="presentation"/"none" para decorativas
+ */
+export function imgNeedsAccessibility(node: ImgNodeRange): boolean {
+	// Se tem aria-hidden="true", não precisa de alt
+	if (node.hasAriaHidden) {
+		return false;
+	}
+
+	// Se tem role="presentation" ou role="none", é decorativa
+	if (node.hasRole) {
+		return false;
+	}
+
+	// Se não tem atributo alt, PRECISA de correção
+	if (!node.hasAlt) {
+		return true;
+	}
+
+	// alt="" vazio é válido para imagens decorativas
+	// Qualquer alt com conteúdo é válido para imagens informativas
+	return false;
+}
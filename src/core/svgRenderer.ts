@@ -0,0 +1,215 @@
+/**
+ * Módulo para renderizar SVG como imagem Base64
+ * Suporta análise visual via modelos de IA multimodais
+ */
+
+import { Buffer } from 'node:buffer';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { Resvg, initWasm } from '@resvg/resvg-wasm';
+import { AIProvider, getProvider } from './providers';
+
+export interface RenderedImage {
+	base64: string;
+	mimeType: 'image/png' | 'image/jpeg';
+	width: number;
+	height: number;
+}
+
+/**
+ * Opções de rasterização do SVG
+ */
+export interface SvgRenderOptions {
+	/** Fator de escala sobre o tamanho intrínseco do SVG (padrão 2) */
+	scale?: number;
+	/** Cor de fundo CSS; vazio = transparente (padrão branco, melhor para modelos de visão) */
+	background?: string;
+	/** Cor usada para resolver currentColor (padrão preto) */
+	currentColor?: string;
+}
+
+const DEFAULT_RENDER_OPTIONS: Required<SvgRenderOptions> = {
+	scale: 2,
+	background: '#ffffff',
+	currentColor: '#000000'
+};
+
+/** Nome do arquivo WASM copiado para dist/ pelo build */
+const WASM_FILE_NAME = 'resvg.wasm';
+
+let wasmReady: Promise<void> | undefined;
+
+/**
+ * Inicializa o resvg (WASM) uma única vez por processo.
+ * Procura o .wasm ao lado do bundle (dist/) e, em desenvolvimento, no pacote npm.
+ */
+function ensureWasm(): Promise<void> {
+	if (!wasmReady) {
+		wasmReady = (async () => {
+			const bundled = path.join(__dirname, WASM_FILE_NAME);
+			const wasmPath = fs.existsSync(bundled) ? bundled : require.resolve('@resvg/resvg-wasm/index_bg.wasm');
+			await initWasm(await fs.promises.readFile(wasmPath));
+		})();
+		// Permite nova tentativa se a inicialização falhar
+		wasmReady.catch(() => {
+			wasmReady = undefined;
+		});
+	}
+	return wasmReady;
+}
+
+/**
+ * Rasteriza o código SVG para PNG (Base64) offline, usando resvg (WASM).
+ * Respeita viewBox, <style> embutido e currentColor.
+ */
+export async function renderSvgToBase64(svgCode: string, options: SvgRenderOptions = {}): Promise<RenderedImage> {
+	const opts: Required<SvgRenderOptions> = {
+		scale: options.scale ?? DEFAULT_RENDER_OPTIONS.scale,
+		background: options.background ?? DEFAULT_RENDER_OPTIONS.background,
+		currentColor: options.currentColor ?? DEFAULT_RENDER_OPTIONS.currentColor
+	};
+
+	const renderable = toRenderableSvg(svgCode);
+
+	// Extrair dimensões do SVG
+	const dimensions = extractSvgDimensions(renderable);
+	
+	// Normalizar o SVG para garantir namespace correto
+	const normalizedSvg = normalizeSvg(renderable, dimensions.width, dimensions.height, opts.currentColor);
+
+	await ensureWasm();
+	const resvg = new Resvg(normalizedSvg, {
+		fitTo: { mode: 'zoom', value: opts.scale > 0 ? opts.scale : DEFAULT_RENDER_OPTIONS.scale },
+		...(opts.background ? { background: opts.background } : {}),
+		font: { loadSystemFonts: false }
+	});
+	try {
+		const image = resvg.render();
+		try {
+			return {
+				base64: Buffer.from(image.asPng()).toString('base64'),
+				mimeType: 'image/png',
+				width: image.width,
+				height: image.height
+			};
+		} finally {
+			image.free();
+		}
+	} finally {
+		resvg.free();
+	}
+}
+
+/**
+ * Converte SVG escrito em JSX para SVG/XML válido (melhor esforço):
+ * className → class, atributos camelCase → kebab-case, remove expressões {…} e spreads
+ */
+function toRenderableSvg(svgCode: string): string {
+	return svgCode
+		// {/* comentários JSX */}
+		.replace(/\{\s*\/\*[\s\S]*?\*\/\s*\}/g, '')
+		// {...props}
+		.replace(/\s\{\s*\.\.\.[^{}]*\}/g, '')
+		// style={{ ... }} e demais objetos
+		.replace(/\s[\w:-]+=\{\{[^{}]*\}\}/g, '')
+		// attr={"literal"} / attr={'literal'} / attr={2}
+		.replace(/(\s[\w:-]+)=\{\s*(["'])(.*?)\2\s*\}/g, '$1="$3"')
+		.replace(/(\s[\w:-]+)=\{\s*(-?[\d.]+)\s*\}/g, '$1="$2"')
+		// Demais expressões não podem ser avaliadas
+		.replace(/\s[\w:-]+=\{[^{}]*\}/g, '')
+		.replace(/\sclassName=/g, ' class=')
+		.replace(/\sxlinkHref=/g, ' xlink:href=')
+		.replace(/\sxmlnsXlink=/g, ' xmlns:xlink=')
+		.replace(/(\s)([a-z]+[A-Z][A-Za-z]*)=/g, (_m, space: string, name: string) =>
+			// viewBox, preserveAspectRatio etc. são camelCase também no SVG
+			CAMEL_CASE_SVG_ATTRIBUTES.has(name) ? `${space}${name}=` : `${space}${name.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase())}=`
+		);
+}
+
+/** Atributos SVG que já são camelCase no XML e não devem ser convertidos */
+const CAMEL_CASE_SVG_ATTRIBUTES = new Set([
+	'viewBox', 'preserveAspectRatio', 'gradientUnits', 'gradientTransform', 'patternUnits',
+	'patternContentUnits', 'patternTransform', 'clipPathUnits', 'maskUnits', 'maskContentUnits',
+	'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'spreadMethod', 'stdDeviation',
+	'textLength', 'lengthAdjust', 'startOffset', 'pathLength', 'filterUnits', 'primitiveUnits',
+	'baseFrequency', 'numOctaves', 'kernelMatrix', 'tableValues', 'specularExponent', 'surfaceScale'
+]);
+
+/**
+ * Extrai as dimensões do SVG a partir dos atributos width/height (em px) ou viewBox da tag raiz
+ */
+function extractSvgDimensions(svgCode: string): { width: number; height: number } {
+	const rootTag = svgCode.match(/<svg\b[^>]*>/i)?.[0] ?? '';
+
+	// Tentar extrair de width/height explícitos (unidades relativas como % e em são ignoradas)
+	const widthMatch = rootTag.match(/\swidth\s*=\s*["']?\s*([\d.]+)(?:px)?\s*["'\s/>]/i);
+	const heightMatch = rootTag.match(/\sheight\s*=\s*["']?\s*([\d.]+)(?:px)?\s*["'\s/>]/i);
+	
+	if (widthMatch && heightMatch) {
+		return {
+			width: Math.ceil(parseFloat(widthMatch[1])),
+			height: Math.ceil(parseFloat(heightMatch[1]))
+		};
+	}
+	
+	// Tentar extrair do viewBox
+	const viewBoxMatch = rootTag.match(/viewBox\s*=\s*["']?\s*-?[\d.]+[\s,]+-?[\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)/i);
+	if (viewBoxMatch) {
+		return {
+			width: Math.ceil(parseFloat(viewBoxMatch[1])),
+			height: Math.ceil(parseFloat(viewBoxMatch[2]))
+		};
+	}
+	
+	// Fallback para dimensões padrão
+	return { width: 100, height: 100 };
+}
+
+/**
+ * Normaliza a tag raiz do SVG: namespaces XML, dimensões absolutas e cor de currentColor
+ */
+function normalizeSvg(svgCode: string, width: number, height: number, currentColor: string): string {
+	const rootMatch = svgCode.match(/<svg\b[^>]*>/i);
+	if (!rootMatch) return svgCode;
+	let rootTag = rootMatch[0];
+	const closing = rootTag.endsWith('/>') ? '/>' : '>';
+	let attrs = rootTag.slice('<svg'.length, rootTag.length - closing.length);
+	
+	// Adicionar namespace se não existir
+	if (!/\sxmlns\s*=/i.test(attrs)) {
+		attrs = ' xmlns="http://www.w3.org/2000/svg"' + attrs;
+	}
+	if (svgCode.includes('xlink:') && !/\sxmlns:xlink\s*=/i.test(attrs)) {
+		attrs = ' xmlns:xlink="http://www.w3.org/1999/xlink"' + attrs;
+	}
+	
+	// Garantir width/height absolutos (%, em etc. não têm referência fora da página)
+	attrs = setAbsoluteDimension(attrs, 'width', width);
+	attrs = setAbsoluteDimension(attrs, 'height', height);
+
+	// currentColor herda a propriedade color do elemento raiz
+	if (currentColor && !/\scolor\s*=/i.test(attrs)) {
+		attrs += ` color="${currentColor}"`;
+	}
+	
+	rootTag = `<svg${attrs}${closing}`;
+	return svgCode.slice(0, rootMatch.index) + rootTag + svgCode.slice(rootMatch.index! + rootMatch[0].length);
+}
+
+function setAbsoluteDimension(attrs: string, name: 'width' | 'height', value: number): string {
+	const re = new RegExp(`\\s${name}\\s*=\\s*("[^"]*"|'[^']*'|[^\\s>]+)`, 'i');
+	const match = attrs.match(re);
+	if (!match) return `${attrs} ${name}="${value}"`;
+	const raw = match[1].replace(/^["']|["']$/g, '').trim();
+	if (/^[\d.]+(px)?$/i.test(raw)) return attrs;
+	return attrs.replace(re, ` ${name}="${value}"`);
+}
+
+/**
+ * Cria a parte de imagem no formato do provedor de IA (ver providers/)
+ */
+export function createVisionPayload(renderedImage: RenderedImage, provider: AIProvider = 'openai'): object {
+	const adapter = getProvider(provider);
+	if (!adapter) throw new Error(`Provedor de IA desconhecido: ${provider}`);
+	return adapter.buildImagePart({ kind: 'base64', data: renderedImage.base64, mimeType: renderedImage.mimeType });
+}
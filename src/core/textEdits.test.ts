@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { applyTextEdits, computeSvgEdits } from './textEdits';
+import { MarkupDialect, findSvgNodes } from './svgParser';
+import type { IAResponseSuggestion } from './iaClient';
+
+function apply(text: string, suggestion: IAResponseSuggestion, dialect: MarkupDialect = 'html'): string {
+	const [node] = findSvgNodes(text, dialect);
+	return applyTextEdits(text, computeSvgEdits(node, suggestion, dialect));
+}
+
+const SVG = '<svg aria-describedby="d"><title>Velho</title>\n  <desc id="d">Descrição antiga</desc><path d="M0"/></svg>';
+
+test('descrição apagada na revisão remove o <desc> e o aria-describedby', () => {
+	assert.equal(
+		apply(SVG, { isDecorative: false, titleText: 'Novo', descText: '', removeDesc: true }),
+		'<svg><title>Novo</title><path d="M0"/></svg>'
+	);
+});
+
+test('descrição vazia sem removeDesc mantém o <desc> existente', () => {
+	assert.equal(
+		apply(SVG, { isDecorative: false, titleText: 'Novo', descText: '' }),
+		SVG.replace('Velho', 'Novo')
+	);
+});
+
+test('SVG sem <title>: <desc> apagado é removido ao inserir o título (JSX)', () => {
+	const result = apply('<svg>\n  <desc>Antiga</desc>\n</svg>', { isDecorative: false, titleText: 'Novo', descText: '', removeDesc: true }, 'jsx');
+	assert.equal(result, '<svg role="img" aria-label="Novo">\n  <title>Novo</title>\n\n</svg>');
+});
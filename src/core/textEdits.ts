@@ -0,0 +1,232 @@
+import type { IAResponseSuggestion } from './iaClient';
+import {
+	SvgNodeRange,
+	ImgNodeRange,
+	MarkupAttribute,
+	MarkupElement,
+	MarkupDialect,
+	getAttribute,
+	attributeInsertOffset
+} from './svgParser';
+
+/**
+ * Alteração de texto independente do editor (offsets absolutos).
+ * Inserção pura quando start === end.
+ */
+export interface TextEdit {
+	start: number;
+	end: number;
+	newText: string;
+}
+
+/** Atributo a definir: nome e valor já no formato final (com aspas ou chaves) */
+type AttributeValue = [name: string, value: string];
+
+/**
+ * Calcula as alterações que aplicam a sugestão ao <svg>.
+ * Se o SVG já tiver <title>/<desc>, o texto existente é substituído (regeneração).
+ * Em JSX/TSX segue as convenções do React: aria-hidden={true} com focusable="false",
+ * e aria-label no lugar de aria-labelledby (um id fixo se repete quando o componente
+ * é renderizado várias vezes e não é estável com renderização no servidor).
+ */
+export function computeSvgEdits(node: SvgNodeRange, suggestion: IAResponseSuggestion, dialect: MarkupDialect = 'html'): TextEdit[] {
+	const jsx = dialect === 'jsx';
+	if (suggestion.isDecorative) {
+		if (node.hasAriaHidden) return [];
+		const attrs: AttributeValue[] = [['aria-hidden', jsx ? '{true}' : '"true"']];
+		if (jsx && !getAttribute(node, 'focusable')) attrs.push(['focusable', '"false"']);
+		return setAttributes(node, attrs, dialect);
+	}
+	const escapeText = jsx ? escapeJsxText : escapeHtml;
+	const titleText = suggestion.titleText?.trim() || 'Gráfico';
+	const descText = suggestion.descText?.trim();
+	const existingTitle = directChild(node.element, 'title');
+	const existingDesc = directChild(node.element, 'desc');
+	// Um SVG informativo não pode continuar oculto para leitores de tela
+	const ariaHidden = getAttribute(node, 'aria-hidden');
+	const edits: TextEdit[] = ariaHidden ? [removeAttribute(node, ariaHidden)] : [];
+	// aria-labelledby existente (com o id de um <title>) continua valendo
+	const label: AttributeValue[] = jsx && !getAttribute(node, 'aria-labelledby')
+		? [['aria-label', `"${escapeHtml(titleText)}"`]]
+		: [];
+
+	if (existingTitle?.closeTag) {
+		edits.push(...setAttributes(node, label, dialect), replaceInnerText(existingTitle, titleText, escapeText));
+		if (existingDesc?.closeTag) {
+			if (descText) edits.push(replaceInnerText(existingDesc, descText, escapeText));
+			else if (suggestion.removeDesc) edits.push(...removeDesc(node, existingDesc));
+		} else if (descText) {
+			edits.push(insertAt(existingTitle.end, `\n  <desc>${escapeText(descText)}</desc>`));
+		}
+		return edits;
+	}
+
+	// Informative: need title (and maybe desc) and role/img + aria-labelledby (aria-label em JSX)
+	const attrs: AttributeValue[] = [];
+	if (!getAttribute(node, 'role')) {
+		attrs.push(['role', '"img"']);
+	}
+	let titleTag: string;
+	if (jsx) {
+		attrs.push(...label);
+		titleTag = `<title>${escapeText(titleText)}</title>`;
+	} else {
+		const titleId = generateTitleId();
+		if (!getAttribute(node, 'aria-labelledby')) {
+			attrs.push(['aria-labelledby', `"${titleId}"`]);
+		}
+		titleTag = `<title id="${titleId}">${escapeText(titleText)}</title>`;
+	}
+	const parts = [titleTag];
+	if (descText && !existingDesc) parts.push(`<desc>${escapeText(descText)}</desc>`);
+	if (!descText && suggestion.removeDesc && existingDesc?.closeTag) edits.push(...removeDesc(node, existingDesc));
+	const children = '\n  ' + parts.join('\n  ') + '\n';
+
+	if (node.selfClosing) {
+		// <svg ... /> precisa ser expandido para receber <title>/<desc>
+		return [...edits, ...setAttributes(node, attrs, dialect, `${children}</${node.element.name}>`)];
+	}
+	edits.push(...setAttributes(node, attrs, dialect));
+	// Insert title/desc after opening tag.
+	edits.push(insertAt(node.tagOpenRange.end, children));
+	return edits;
+}
+
+/**
+ * Calcula a alteração que define o atributo alt da <img> (substitui o alt existente, mesmo que seja uma expressão JSX)
+ */
+export function computeImgEdits(node: ImgNodeRange, suggestion: IAResponseSuggestion, dialect: MarkupDialect = 'html'): TextEdit[] {
+	// Imagem decorativa: alt="" / informativa: alt="descrição"
+	const altValue = suggestion.isDecorative ? '' : escapeHtml(suggestion.titleText?.trim() || 'Imagem');
+	return setAttributes(node, [['alt', `"${altValue}"`]], dialect);
+}
+
+/**
+ * Alteração já feita no documento (mesmos campos de TextDocumentContentChangeEvent):
+ * `rangeOffset`/`rangeLength` referem-se ao texto anterior a ela
+ */
+export interface TextChange {
+	rangeOffset: number;
+	rangeLength: number;
+	text: string;
+}
+
+/**
+ * Posição de `offset` após as alterações, aplicadas em sequência.
+ * Retorna undefined se alguma alteração atingiu o próprio offset.
+ */
+export function mapOffsetThroughChanges(offset: number, changes: readonly TextChange[]): number | undefined {
+	let mapped = offset;
+	for (const change of changes) {
+		const changeEnd = change.rangeOffset + change.rangeLength;
+		if (changeEnd <= mapped) {
+			// Antes do offset (inserção no próprio offset empurra o elemento para frente)
+			mapped += change.text.length - change.rangeLength;
+		} else if (change.rangeOffset < mapped) {
+			// Substituição que engloba o offset: o elemento foi alterado
+			return undefined;
+		}
+	}
+	return mapped;
+}
+
+/**
+ * Aplica as alterações ao texto (em ordem decrescente de offset para não deslocar as demais)
+ */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+	const sorted = [...edits].sort((a, b) => b.start - a.start || b.end - a.end);
+	let result = text;
+	for (const e of sorted) {
+		result = result.slice(0, e.start) + e.newText + result.slice(e.end);
+	}
+	return result;
+}
+
+function insertAt(offset: number, newText: string): TextEdit {
+	return { start: offset, end: offset, newText };
+}
+
+/**
+ * Substitui os atributos existentes e insere os demais numa única edição,
+ * preservando o fechamento da tag (> ou />). Os valores já devem estar escapados.
+ * Em JSX, os novos atributos entram antes do primeiro {...props}: as props
+ * passadas ao componente continuam prevalecendo.
+ * Com `expand`, a tag auto-fechada é trocada por `>` + `expand` (filhos e fechamento).
+ */
+function setAttributes(
+	node: SvgNodeRange | ImgNodeRange,
+	attrs: AttributeValue[],
+	dialect: MarkupDialect,
+	expand?: string
+): TextEdit[] {
+	const edits: TextEdit[] = [];
+	const added: string[] = [];
+	for (const [name, value] of attrs) {
+		const existing = getAttribute(node, name);
+		if (existing) {
+			edits.push({ start: existing.start, end: existing.end, newText: `${existing.name}=${value}` });
+		} else {
+			added.push(`${name}=${value}`);
+		}
+	}
+	const spread = dialect === 'jsx' ? node.attributes.find((a) => a.isSpread) : undefined;
+	if (spread && added.length) {
+		edits.push(insertAt(spread.start, `${added.join(' ')} `));
+		added.length = 0;
+	}
+	const tail = added.map((a) => ` ${a}`).join('');
+	const offset = attributeInsertOffset(node.element);
+	if (expand !== undefined) {
+		edits.push({ start: offset, end: node.element.openTag.end, newText: `${tail}>${expand}` });
+	} else if (tail) {
+		edits.push(insertAt(offset, tail));
+	}
+	return edits;
+}
+
+/**
+ * Remove o atributo junto com o espaço em branco que o precede
+ */
+function removeAttribute(node: SvgNodeRange, attr: MarkupAttribute): TextEdit {
+	let start = attr.start;
+	while (start > node.start && /\s/.test(node.content[start - node.start - 1])) start--;
+	return { start, end: attr.end, newText: '' };
+}
+
+/**
+ * Remove o <desc> (com o espaço em branco que o precede) e o aria-describedby
+ * do <svg> que apontava só para ele
+ */
+function removeDesc(node: SvgNodeRange, desc: MarkupElement): TextEdit[] {
+	let start = desc.start;
+	while (start > node.tagOpenRange.end && /\s/.test(node.content[start - node.start - 1])) start--;
+	const edits: TextEdit[] = [{ start, end: desc.end, newText: '' }];
+	const descId = getAttribute(desc, 'id')?.value;
+	const describedBy = getAttribute(node, 'aria-describedby');
+	if (descId && describedBy && !describedBy.isExpression && describedBy.value?.trim() === descId) {
+		edits.push(removeAttribute(node, describedBy));
+	}
+	return edits;
+}
+
+function directChild(el: MarkupElement, localName: string): MarkupElement | undefined {
+	return el.children.find((c) => c.localName === localName);
+}
+
+function replaceInnerText(el: MarkupElement, text: string, escape: (str: string) => string): TextEdit {
+	return { start: el.openTag.end, end: el.closeTag!.start, newText: escape(text) };
+}
+
+function generateTitleId(): string {
+	const base = 'svg-title-' + Math.random().toString(36).slice(2, 8);
+	return base;
+}
+
+function escapeHtml(str: string): string {
+	return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Texto entre tags JSX: chaves abririam uma expressão */
+function escapeJsxText(str: string): string {
+	return escapeHtml(str).replace(/\{/g, '&#123;').replace(/\}/g, '&#125;');
+}
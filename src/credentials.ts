@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { AIProviderSetting, listProviders, log, resolveProvider } from './core';
+
+/** Chave da API de IA no SecretStorage do VS Code */
+export const API_KEY_SECRET = 'svgA11yAssist.apiKey';
+
+/**
+ * Move a chave de API das configurações (texto puro em settings.json) para o
+ * SecretStorage e remove-a de todos os escopos
+ */
+export async function migratePlaintextApiKey(context: vscode.ExtensionContext): Promise<void> {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const inspected = config.inspect<string>('apiKey');
+	// Escopo mais específico primeiro, como o VS Code resolve o valor efetivo
+	const scopes: [string | undefined, vscode.ConfigurationTarget][] = [
+		[inspected?.workspaceFolderValue, vscode.ConfigurationTarget.WorkspaceFolder],
+		[inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+		[inspected?.globalValue, vscode.ConfigurationTarget.Global]
+	];
+	const plaintext = scopes.find(([value]) => value)?.[0];
+	if (!plaintext) return;
+
+	if (!(await context.secrets.get(API_KEY_SECRET))) {
+		await context.secrets.store(API_KEY_SECRET, plaintext);
+	}
+	for (const [value, target] of scopes) {
+		if (value === undefined) continue;
+		try {
+			await config.update('apiKey', undefined, target);
+		} catch (err) {
+			log.warn(`Não foi possível remover svgA11yAssist.apiKey (escopo ${target}): ${(err as Error).message}`);
+		}
+	}
+	vscode.window.showInformationMessage(
+		vscode.l10n.t('The API key in svgA11yAssist.apiKey was moved to VS Code secure storage and removed from the settings.')
+	);
+}
+
+interface ProviderPickItem extends vscode.QuickPickItem {
+	id: AIProviderSetting;
+}
+
+/**
+ * Assistente "Configurar Provedor de IA": provedor, endpoint, modelo e chave.
+ * A chave vai para o SecretStorage; o restante para as configurações do usuário.
+ * @returns true se a configuração foi salva
+ */
+export async function configureProvider(context: vscode.ExtensionContext): Promise<boolean> {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const currentEndpoint = config.get<string>('endpoint') ?? '';
+	const current = resolveProvider(config.get<AIProviderSetting>('provider'), currentEndpoint).adapter;
+
+	const picked = await vscode.window.showQuickPick<ProviderPickItem>(
+		listProviders().map((p) => ({
+			id: p.id,
+			label: p.label,
+			description: p.id === current.id ? vscode.l10n.t('{0} (current)', p.id) : p.id,
+			detail: p.local ? vscode.l10n.t('Local/self-hosted, no API key required') : undefined
+		})),
+		{ title: vscode.l10n.t('Configure AI Provider ({0}/4)', 1), placeHolder: vscode.l10n.t('Choose the AI provider') }
+	);
+	if (!picked) return false;
+	const adapter = listProviders().find((p) => p.id === picked.id)!;
+
+	const endpoint = await vscode.window.showInputBox({
+		title: vscode.l10n.t('Configure AI Provider ({0}/4)', 2),
+		prompt: vscode.l10n.t('API endpoint ({0})', adapter.label),
+		value: adapter.id === current.id && currentEndpoint ? currentEndpoint : adapter.defaultEndpoint ?? '',
+		ignoreFocusOut: true,
+		validateInput: (value) => {
+			try {
+				new URL(value);
+				return undefined;
+			} catch {
+				return vscode.l10n.t('Enter a valid URL (e.g. https://…)');
+			}
+		}
+	});
+	if (endpoint === undefined) return false;
+
+	const model = await vscode.window.showInputBox({
+		title: vscode.l10n.t('Configure AI Provider ({0}/4)', 3),
+		prompt: vscode.l10n.t('Model (leave empty for the provider default)'),
+		value: adapter.id === current.id ? config.get<string>('model') ?? '' : '',
+		ignoreFocusOut: true
+	});
+	if (model === undefined) return false;
+
+	const hasKey = !!(await context.secrets.get(API_KEY_SECRET));
+	const apiKey = await vscode.window.showInputBox({
+		title: vscode.l10n.t('Configure AI Provider ({0}/4)', 4),
+		prompt: adapter.local ? vscode.l10n.t('API key (optional for local providers)') : vscode.l10n.t('API key'),
+		placeHolder: hasKey ? vscode.l10n.t('Leave empty to keep the current key') : undefined,
+		password: true,
+		ignoreFocusOut: true
+	});
+	if (apiKey === undefined) return false;
+
+	const target = vscode.ConfigurationTarget.Global;
+	await config.update('provider', adapter.id, target);
+	await config.update('endpoint', endpoint.trim(), target);
+	await config.update('model', model.trim() || undefined, target);
+	// A configuração padrão volta a valer (um perfil ativo a esconderia)
+	await config.update('activeProfile', undefined, target);
+	if (apiKey.trim()) {
+		await context.secrets.store(API_KEY_SECRET, apiKey.trim());
+	}
+
+	vscode.window.showInformationMessage(
+		apiKey.trim() || hasKey
+			? vscode.l10n.t('AI provider configured: {0} (API key in secure storage).', adapter.label)
+			: vscode.l10n.t('AI provider configured: {0}.', adapter.label)
+	);
+	return true;
+}
@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { TextChange, mapOffsetThroughChanges } from './core';
+
+/**
+ * Acompanha as alterações de um documento enquanto a IA responde, para que a
+ * correção seja aplicada ao elemento certo (ou recusada se ele mudou)
+ */
+export class DocumentChangeTracker implements vscode.Disposable {
+	/** Versão do documento quando o elemento foi localizado */
+	readonly version: number;
+	private readonly changes: TextChange[] = [];
+	private readonly subscription: vscode.Disposable;
+
+	constructor(readonly doc: vscode.TextDocument) {
+		this.version = doc.version;
+		this.subscription = vscode.workspace.onDidChangeTextDocument((e) => {
+			if (e.document === doc) this.changes.push(...e.contentChanges);
+		});
+	}
+
+	/** O texto mudou desde a criação do rastreador? */
+	get changed(): boolean {
+		return this.doc.version !== this.version;
+	}
+
+	/**
+	 * Reencontra o elemento no texto atual: o offset original é deslocado pelas
+	 * alterações feitas e o markup precisa continuar idêntico.
+	 * Retorna undefined se o elemento foi editado, removido ou o documento fechado.
+	 */
+	relocate<T extends { start: number; content: string }>(target: T, findNodes: (text: string) => T[]): T | undefined {
+		if (this.doc.isClosed) return undefined;
+		if (!this.changed) return target;
+		const start = mapOffsetThroughChanges(target.start, this.changes);
+		if (start === undefined) return undefined;
+		return findNodes(this.doc.getText()).find((n) => n.start === start && n.content === target.content);
+	}
+
+	/**
+	 * Posição atual de um offset do texto original (undefined se uma alteração o atingiu)
+	 */
+	mapOffset(offset: number): number | undefined {
+		return mapOffsetThroughChanges(offset, this.changes);
+	}
+
+	dispose(): void {
+		this.subscription.dispose();
+	}
+}
+
+/**
+ * Salva o documento após a correção se svgA11yAssist.saveAfterFix estiver ativo
+ * (por padrão a alteração fica pendente, como qualquer outra edição)
+ */
+export async function saveIfConfigured(doc: vscode.TextDocument): Promise<void> {
+	if (vscode.workspace.getConfiguration('svgA11yAssist').get<boolean>('saveAfterFix')) {
+		await doc.save();
+	}
+}
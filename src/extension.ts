@@ -1,58 +1,90 @@
 import * as vscode from 'vscode';
-import { createIAClient } from './iaClient';
-import { findSvgNodes, needsAccessibility, SvgNodeRange, findImgNodes, imgNeedsAccessibility, ImgNodeRange } from './svgParser';
-
-const DIAGNOSTIC_CODE_SVG = 'svg-missing-a11y';
-const DIAGNOSTIC_CODE_IMG = 'img-missing-alt';
+import { createIAClient, clearSuggestionCaches, createSuggestionCaches, suggestOptionsFor, toAbortSignal } from './vscodeHost';
+import {
+	findSvgNodes,
+	needsAccessibility,
+	findImgNodes,
+	imgNeedsAccessibility,
+	dialectForLanguage,
+	DIAGNOSTIC_CODE_SVG,
+	DIAGNOSTIC_CODE_IMG,
+	SUPPORTED_LANGUAGES,
+	IAClient,
+	SvgNodeRange,
+	ImgNodeRange,
+	isCancellation
+} from './core';
+import { auditWorkspace, buildDiagnostics } from './workspaceAudit';
+import { buildWorkspaceEditForSuggestion, buildWorkspaceEditForImg } from './workspaceEdits';
+import { fixAllInFile, fixAllInWorkspace } from './batchFix';
+import { AnalysisStore, exportReport } from './reportExport';
+import { A11yReportPanel } from './reportPanel';
+import { API_KEY_SECRET, configureProvider, migratePlaintextApiKey } from './credentials';
+import { ProviderStatusBar, getActiveProfile, showProfilePicker } from './profiles';
+import { testConnection } from './testConnection';
+import { initLogging, showLog } from './logging';
+import { classificationLabel, isReviewEnabled, reviewSuggestion } from './suggestionReview';
+import { DocumentChangeTracker, saveIfConfigured } from './editGuard';
 
 let collection: vscode.DiagnosticCollection;
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
+	initLogging(context);
 	collection = vscode.languages.createDiagnosticCollection('a11yAssist');
 	context.subscriptions.push(collection);
 
-	const iaClient = createIAClient();
+	let caches = createSuggestionCaches(context);
+	// Gravar sugestões pendentes ao desativar
+	context.subscriptions.push({ dispose: () => caches.forEach((c) => c.flush()) });
+	await migratePlaintextApiKey(context);
+	let iaClient = await createIAClient(context.secrets, caches);
+	const analyses = new AnalysisStore();
+
+	const providerStatus = new ProviderStatusBar();
+	context.subscriptions.push(providerStatus);
+	providerStatus.update(iaClient.info, getActiveProfile());
+
+	// Recriar o cliente (e o provedor) quando configurações, .env ou credenciais mudarem.
+	// Recargas em sequência: a última configuração sempre vence.
+	let reloading = Promise.resolve();
+	function reloadIAClient() {
+		reloading = reloading.then(async () => {
+			iaClient = await createIAClient(context.secrets, caches);
+			providerStatus.update(iaClient.info, getActiveProfile());
+		}).catch((err) => {
+			vscode.window.showErrorMessage(vscode.l10n.t('Error reloading the AI client: {0}', (err as Error).message));
+		});
+	}
+	context.subscriptions.push(
+		context.secrets.onDidChange((e) => {
+			if (e.key.startsWith(API_KEY_SECRET)) reloadIAClient();
+		}),
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (!e.affectsConfiguration('svgA11yAssist')) return;
+			if (e.affectsConfiguration('svgA11yAssist.cache')) {
+				caches.forEach((c) => c.flush());
+				caches = createSuggestionCaches(context);
+			}
+			reloadIAClient();
+		})
+	);
+
+	// Observar o .env da raiz do workspace
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+	if (workspaceFolder) {
+		const envWatcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(workspaceFolder, '.env'));
+		envWatcher.onDidCreate(reloadIAClient);
+		envWatcher.onDidChange(reloadIAClient);
+		envWatcher.onDidDelete(reloadIAClient);
+		context.subscriptions.push(envWatcher);
+	}
 
 	function refreshDiagnostics(doc: vscode.TextDocument) {
-		if (!['html', 'javascriptreact', 'typescriptreact'].includes(doc.languageId)) {
+		if (!SUPPORTED_LANGUAGES.includes(doc.languageId)) {
 			return;
 		}
-		const text = doc.getText();
-		const diags: vscode.Diagnostic[] = [];
-		
-		// Diagnósticos para SVG
-		const svgNodes = findSvgNodes(text);
-		svgNodes.forEach((n) => {
-			if (needsAccessibility(n)) {
-				const range = new vscode.Range(doc.positionAt(n.start), doc.positionAt(n.tagOpenRange.end));
-				const diag = new vscode.Diagnostic(
-					range,
-					'SVG sem <title>/<desc> ou aria-hidden: potencial falha de acessibilidade.',
-					vscode.DiagnosticSeverity.Warning
-				);
-				diag.source = 'A11Y Assist';
-				diag.code = DIAGNOSTIC_CODE_SVG;
-				diags.push(diag);
-			}
-		});
-		
-		// Diagnósticos para IMG
-		const imgNodes = findImgNodes(text);
-		imgNodes.forEach((n) => {
-			if (imgNeedsAccessibility(n)) {
-				const range = new vscode.Range(doc.positionAt(n.start), doc.positionAt(n.end));
-				const diag = new vscode.Diagnostic(
-					range,
-					'Imagem sem atributo alt: violação WCAG 1.1.1 (Conteúdo Não-textual).',
-					vscode.DiagnosticSeverity.Warning
-				);
-				diag.source = 'A11Y Assist';
-				diag.code = DIAGNOSTIC_CODE_IMG;
-				diags.push(diag);
-			}
-		});
-		
-		collection.set(doc.uri, diags);
+		// Diagnósticos para SVG e IMG
+		collection.set(doc.uri, buildDiagnostics(doc.getText(), doc.languageId));
 	}
 
 	if (vscode.window.activeTextEditor) {
@@ -70,7 +102,7 @@ export function activate(context: vscode.ExtensionContext) {
 	context.subscriptions.push(
 		vscode.languages.registerCodeActionsProvider(
 			[{ language: 'html' }, { language: 'javascriptreact' }, { language: 'typescriptreact' }],
-			new A11yCodeActionProvider(iaClient),
+			new A11yCodeActionProvider(),
 			{ providedCodeActionKinds: [vscode.CodeActionKind.QuickFix] }
 		)
 	);
@@ -80,7 +112,7 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('a11yAssist.fixSvg', async (diagnosticRange?: vscode.Range) => {
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) return;
-			await applyFixForSvg(editor, iaClient, diagnosticRange);
+			await applyFixForSvg(editor, iaClient, analyses, diagnosticRange);
 		})
 	);
 
@@ -89,9 +121,87 @@ export function activate(context: vscode.ExtensionContext) {
 		vscode.commands.registerCommand('a11yAssist.fixImg', async (diagnosticRange?: vscode.Range) => {
 			const editor = vscode.window.activeTextEditor;
 			if (!editor) return;
-			await applyFixForImg(editor, iaClient, diagnosticRange);
+			await applyFixForImg(editor, iaClient, analyses, diagnosticRange);
 		})
 	);
+
+	// Comandos do editor (paleta e menu de contexto) para o <svg>/<img> sob o cursor
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.fixAtCursor', async () => {
+			const editor = vscode.window.activeTextEditor;
+			const element = editor && elementAtCursor(editor);
+			if (!editor || !element) return;
+			const needsFix = elementNeedsAccessibility(element);
+			if (!needsFix) {
+				// Já tem nome acessível: oferecer gerar de novo em vez de escolher outro elemento
+				const regenerate = vscode.l10n.t('Regenerate');
+				const answer = await vscode.window.showInformationMessage(
+					vscode.l10n.t('This element already has an accessible name.'),
+					regenerate
+				);
+				if (answer !== regenerate) return;
+			}
+			await fixElement(editor, element, iaClient, analyses, !needsFix);
+		}),
+		vscode.commands.registerCommand('a11yAssist.regenerate', async () => {
+			const editor = vscode.window.activeTextEditor;
+			const element = editor && elementAtCursor(editor);
+			if (!editor || !element) return;
+			await fixElement(editor, element, iaClient, analyses, true);
+		}),
+		vscode.commands.registerCommand('a11yAssist.markDecorative', async () => {
+			const editor = vscode.window.activeTextEditor;
+			const element = editor && elementAtCursor(editor);
+			if (!editor || !element) return;
+			await markDecorative(editor.document, element);
+		})
+	);
+
+	// Comando para auditar todos os arquivos do workspace (ou a pasta escolhida no Explorer)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.auditWorkspace', () => auditWorkspace(collection)),
+		vscode.commands.registerCommand('a11yAssist.auditFolder', (folder?: vscode.Uri) => auditWorkspace(collection, folder))
+	);
+
+	// Comandos para corrigir em lote (com revisão no Refactor Preview)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.fixAllInFile', async (uri?: vscode.Uri) => {
+			// Menus do Explorer/editor passam o arquivo; a paleta usa o editor ativo
+			const doc = uri instanceof vscode.Uri
+				? await vscode.workspace.openTextDocument(uri)
+				: vscode.window.activeTextEditor?.document;
+			if (!doc) return;
+			await fixAllInFile(doc, iaClient, analyses);
+		}),
+		vscode.commands.registerCommand('a11yAssist.fixAllInWorkspace', () => fixAllInWorkspace(iaClient, analyses))
+	);
+
+	// Comando para abrir o relatório interativo (webview)
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.showReport', () => A11yReportPanel.show(() => iaClient, analyses))
+	);
+
+	// Comando para exportar os achados como SARIF/JSON
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.exportReport', () =>
+			exportReport(collection, analyses, context.extension.packageJSON.version)
+		)
+	);
+
+	// Comandos para configurar provedor, endpoint, modelo e chave de API (SecretStorage), trocar de perfil e testar a conexão
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.configureProvider', () => configureProvider(context)),
+		vscode.commands.registerCommand('a11yAssist.switchProfile', () => showProfilePicker(context)),
+		vscode.commands.registerCommand('a11yAssist.testConnection', () => testConnection(iaClient))
+	);
+
+	// Comando para abrir o log
+	context.subscriptions.push(vscode.commands.registerCommand('a11yAssist.showLog', showLog));
+
+	// Comando para limpar o cache de sugestões
+	context.subscriptions.push(
+		vscode.commands.registerCommand('a11yAssist.clearCache', () => clearSuggestionCaches(context, caches))
+	);
 }
 
 export function deactivate() {
@@ -99,8 +209,6 @@ export function deactivate() {
 }
 
 class A11yCodeActionProvider implements vscode.CodeActionProvider {
-	constructor(private readonly iaClient: ReturnType<typeof createIAClient>) {}
-
 	provideCodeActions(
 		document: vscode.TextDocument,
 		range: vscode.Range | vscode.Selection,
@@ -112,12 +220,12 @@ class A11yCodeActionProvider implements vscode.CodeActionProvider {
 		const svgDiagnostics = context.diagnostics.filter((d: vscode.Diagnostic) => d.code === DIAGNOSTIC_CODE_SVG);
 		for (const diagnostic of svgDiagnostics) {
 			const action = new vscode.CodeAction(
-				'🎨 Gerar acessibilidade para SVG com IA',
+				vscode.l10n.t('🎨 Generate SVG accessibility with AI'),
 				vscode.CodeActionKind.QuickFix
 			);
 			action.command = {
 				command: 'a11yAssist.fixSvg',
-				title: 'Gerar acessibilidade para SVG com IA',
+				title: vscode.l10n.t('Generate SVG accessibility with AI'),
 				arguments: [diagnostic.range]
 			};
 			action.diagnostics = [diagnostic];
@@ -129,12 +237,12 @@ class A11yCodeActionProvider implements vscode.CodeActionProvider {
 		const imgDiagnostics = context.diagnostics.filter((d: vscode.Diagnostic) => d.code === DIAGNOSTIC_CODE_IMG);
 		for (const diagnostic of imgDiagnostics) {
 			const action = new vscode.CodeAction(
-				'🖼️ Gerar alt para imagem com IA',
+				vscode.l10n.t('🖼️ Generate image alt with AI'),
 				vscode.CodeActionKind.QuickFix
 			);
 			action.command = {
 				command: 'a11yAssist.fixImg',
-				title: 'Gerar alt para imagem com IA',
+				title: vscode.l10n.t('Generate image alt with AI'),
 				arguments: [diagnostic.range]
 			};
 			action.diagnostics = [diagnostic];
@@ -146,20 +254,105 @@ class A11yCodeActionProvider implements vscode.CodeActionProvider {
 	}
 }
 
+// =====================================================
+// Elemento sob o cursor
+// =====================================================
+
+type CursorElement = { kind: 'svg'; node: SvgNodeRange } | { kind: 'img'; node: ImgNodeRange };
+
+/**
+ * <svg> ou <img> sob o cursor (o mais interno, se houver aninhamento).
+ * Avisa o usuário quando não há nenhum.
+ */
+function elementAtCursor(editor: vscode.TextEditor): CursorElement | undefined {
+	const doc = editor.document;
+	if (!SUPPORTED_LANGUAGES.includes(doc.languageId)) {
+		vscode.window.showInformationMessage(vscode.l10n.t('File type not supported by A11Y Assist.'));
+		return undefined;
+	}
+	const text = doc.getText();
+	const dialect = dialectForLanguage(doc.languageId);
+	const offset = doc.offsetAt(editor.selection.active);
+	const elements: CursorElement[] = [
+		...findSvgNodes(text, dialect).map((node) => ({ kind: 'svg' as const, node })),
+		...findImgNodes(text, dialect).map((node) => ({ kind: 'img' as const, node }))
+	];
+	const element = elements
+		.filter(({ node }) => node.start <= offset && offset <= node.end)
+		.sort((a, b) => (a.node.end - a.node.start) - (b.node.end - b.node.start))[0];
+	if (!element) {
+		vscode.window.showInformationMessage(vscode.l10n.t('Place the cursor on an <svg> or <img> element.'));
+	}
+	return element;
+}
+
+function elementNeedsAccessibility(element: CursorElement): boolean {
+	return element.kind === 'svg' ? needsAccessibility(element.node) : imgNeedsAccessibility(element.node);
+}
+
+/**
+ * Gera (ou gera de novo, sem cache) o texto do elemento com a IA
+ */
+function fixElement(
+	editor: vscode.TextEditor,
+	element: CursorElement,
+	iaClient: IAClient,
+	analyses: AnalysisStore,
+	regenerate: boolean
+): Promise<void> {
+	const range = new vscode.Range(editor.document.positionAt(element.node.start), editor.document.positionAt(element.node.end));
+	return element.kind === 'svg'
+		? applyFixForSvg(editor, iaClient, analyses, range, regenerate)
+		: applyFixForImg(editor, iaClient, analyses, range, regenerate);
+}
+
+/**
+ * Marca o elemento como decorativo sem consultar a IA
+ * (SVG: aria-hidden="true"; IMG: alt="")
+ */
+async function markDecorative(doc: vscode.TextDocument, element: CursorElement): Promise<void> {
+	const suggestion = { isDecorative: true };
+	const edit = element.kind === 'svg'
+		? buildWorkspaceEditForSuggestion(doc, element.node, suggestion)
+		: buildWorkspaceEditForImg(doc, element.node, suggestion);
+	// SVG já oculto não gera alterações; <img> com alt="" seria regravada igual
+	if (!edit.size || (element.kind === 'img' && element.node.alt === '')) {
+		vscode.window.showInformationMessage(vscode.l10n.t('The element is already marked as decorative.'));
+		return;
+	}
+	if (!(await vscode.workspace.applyEdit(edit))) {
+		vscode.window.showWarningMessage(vscode.l10n.t('Could not mark the element as decorative.'));
+		return;
+	}
+	await saveIfConfigured(doc);
+	vscode.window.showInformationMessage(
+		element.kind === 'svg'
+			? vscode.l10n.t('✅ SVG marked as decorative (aria-hidden="true")')
+			: vscode.l10n.t('✅ Image marked as decorative (alt="")')
+	);
+}
+
 // =====================================================
 // Fix para SVG
 // =====================================================
 
+/**
+ * Gera o texto do SVG do diagnóstico (ou sob o cursor) com a IA.
+ * `regenerate` inclui SVGs que já têm <title> e ignora o cache.
+ */
 async function applyFixForSvg(
 	editor: vscode.TextEditor,
-	iaClient: ReturnType<typeof createIAClient>,
-	diagnosticRange?: vscode.Range
+	iaClient: IAClient,
+	analyses: AnalysisStore,
+	diagnosticRange?: vscode.Range,
+	regenerate = false
 ) {
 	const doc = editor.document;
 	const text = doc.getText();
-	const nodes = findSvgNodes(text).filter(needsAccessibility);
+	const dialect = dialectForLanguage(doc.languageId);
+	const nodes = findSvgNodes(text, dialect).filter((n) => regenerate || needsAccessibility(n));
 	if (!nodes.length) {
-		vscode.window.showInformationMessage('Nenhum SVG elegível encontrado.');
+		vscode.window.showInformationMessage(vscode.l10n.t('No eligible SVG found.'));
 		return;
 	}
 	
@@ -187,21 +380,28 @@ async function applyFixForSvg(
 		}
 	}
 
+	// Link/botão, texto ao redor, legenda... ajudam o modelo a classificar a imagem;
+	// o idioma da página define o idioma do texto sugerido
+	const options = suggestOptionsFor(doc, text, target.element);
+
+	// O usuário pode continuar editando enquanto a IA responde
+	const tracker = new DocumentChangeTracker(doc);
+
 	// Criar item na barra de status
 	const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-	statusBarItem.text = '$(sync~spin) Consultando IA...';
-	statusBarItem.tooltip = 'SVG A11Y Assist está analisando o SVG com IA';
+	statusBarItem.text = vscode.l10n.t('$(sync~spin) Querying AI...');
+	statusBarItem.tooltip = vscode.l10n.t('SVG A11Y Assist is analyzing the SVG with AI');
 	statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
 	statusBarItem.show();
 
 	const config = vscode.workspace.getConfiguration('svgA11yAssist');
 	const useVision = config.get<boolean>('useVision') ?? false;
 	const progressTitle = useVision 
-		? '$(eye) Analisando SVG com IA (Modo Visão)...' 
-		: '$(hubot) Analisando SVG com IA...';
+		? vscode.l10n.t('$(eye) Analyzing SVG with AI (Vision Mode)...')
+		: vscode.l10n.t('$(hubot) Analyzing SVG with AI...');
 
 	try {
-		await vscode.window.withProgress(
+		let suggestion = await vscode.window.withProgress(
 			{ 
 				location: vscode.ProgressLocation.Notification, 
 				title: 'SVG A11Y Assist',
@@ -209,7 +409,7 @@ async function applyFixForSvg(
 			},
 			async (progress, token) => {
 				// Etapa 1: Preparando
-				progress.report({ message: 'Preparando análise...', increment: 10 });
+				progress.report({ message: vscode.l10n.t('Preparing analysis...'), increment: 10 });
 				
 				if (token.isCancellationRequested) {
 					return;
@@ -218,131 +418,93 @@ async function applyFixForSvg(
 				// Etapa 2: Enviando para IA
 				progress.report({ 
 					message: useVision 
-						? 'Renderizando SVG e enviando para IA...' 
-						: 'Enviando código para IA...', 
+						? vscode.l10n.t('Rendering SVG and sending it to the AI...')
+						: vscode.l10n.t('Sending code to the AI...'),
 					increment: 20 
 				});
 				
 				statusBarItem.text = useVision 
-					? '$(sync~spin) Renderizando SVG...' 
-					: '$(sync~spin) Enviando para IA...';
-
-				const suggestion = await iaClient.suggestForSvg(target.content);
-
-				if (token.isCancellationRequested) {
-					return;
-				}
-
-				// Etapa 3: Aplicando correção
-				progress.report({ message: 'Aplicando correção...', increment: 50 });
-				statusBarItem.text = '$(check) Aplicando correção...';
+					? vscode.l10n.t('$(sync~spin) Rendering SVG...')
+					: vscode.l10n.t('$(sync~spin) Sending to AI...');
 
-				const edit = buildWorkspaceEditForSuggestion(doc, target, suggestion);
-				await vscode.workspace.applyEdit(edit);
-				await doc.save();
-
-				// Etapa 4: Concluído
-				progress.report({ message: 'Concluído!', increment: 20 });
-				
-				// Mostrar resultado com detalhes WCAG quando disponível
-				let resultMessage: string;
-				if (suggestion.wcagAnalysis) {
-					const wcag = suggestion.wcagAnalysis;
-					const tipo = wcag.tipoImagem.classificacao;
-					const status = wcag.conformidade.status === 'conforme' ? '✅' : '⚠️';
-					resultMessage = suggestion.isDecorative 
-						? `${status} WCAG 1.1.1: Imagem ${tipo} → aria-hidden="true"`
-						: `${status} WCAG 1.1.1: Imagem ${tipo} → "${suggestion.titleText}"`;
-				} else {
-					resultMessage = suggestion.isDecorative 
-						? '✅ SVG marcado como decorativo (aria-hidden="true")'
-						: `✅ Acessibilidade adicionada: "${suggestion.titleText}"`;
-				}
-				
-				vscode.window.showInformationMessage(resultMessage);
+				const result = await iaClient.suggestForSvg(target.content, { ...options, signal: toAbortSignal(token), refresh: regenerate });
+				progress.report({ message: vscode.l10n.t('Done!'), increment: 70 });
+				return token.isCancellationRequested ? undefined : result;
 			}
 		);
-	} catch (error) {
-		vscode.window.showErrorMessage(`Erro ao processar SVG: ${(error as Error).message}`);
-	} finally {
-		statusBarItem.dispose();
-	}
-}
+		if (!suggestion) return;
+
+		// Etapa 3: Revisão da sugestão (aceitar, editar, gerar novamente, decorativa)
+		if (isReviewEnabled()) {
+			statusBarItem.hide();
+			suggestion = await reviewSuggestion('svg', suggestion, (signal) =>
+				iaClient.suggestForSvg(target.content, { ...options, signal, refresh: true }),
+				options.language
+			);
+			if (!suggestion) return;
+		}
 
-import type { IAResponseSuggestion } from './iaClient';
-
-function buildWorkspaceEditForSuggestion(
-	doc: vscode.TextDocument,
-	node: SvgNodeRange,
-	suggestion: IAResponseSuggestion
-): vscode.WorkspaceEdit {
-	const edit = new vscode.WorkspaceEdit();
-	const openingTagRange = new vscode.Range(
-		doc.positionAt(node.tagOpenRange.start),
-		doc.positionAt(node.tagOpenRange.end)
-	);
-	const openingTagText = doc.getText(openingTagRange);
-	if (suggestion.isDecorative) {
-		// Add aria-hidden="true" if not present
-		if (!/aria-hidden=/i.test(openingTagText)) {
-					const newOpen = openingTagText.replace(
-						/<svg(\b[^>]*)>/i,
-						(_m: string, attrs: string) => `<svg${attrs} aria-hidden="true">`
-					);
-			edit.replace(doc.uri, openingTagRange, newOpen);
+		// Etapa 4: Aplicando correção no SVG reencontrado (o texto pode ter mudado)
+		const node = tracker.relocate(target, (current) => findSvgNodes(current, dialect));
+		if (!node) {
+			vscode.window.showWarningMessage(vscode.l10n.t('The SVG changed during the analysis; the fix was not applied. Run it again.'));
+			return;
 		}
-		return edit;
-	}
-	// Informative: need title (and maybe desc) and role/img + aria-labelledby
-	const titleId = generateTitleId(openingTagText);
-	let newOpen = openingTagText;
-		if (!/role=/i.test(newOpen)) {
-			newOpen = newOpen.replace(
-				/<svg(\b[^>]*)>/i,
-				(_m: string, attrs: string) => `<svg${attrs} role="img">`
-			);
+		if (!(await vscode.workspace.applyEdit(buildWorkspaceEditForSuggestion(doc, node, suggestion)))) {
+			vscode.window.showWarningMessage(vscode.l10n.t('Could not apply the fix to the SVG.'));
+			return;
 		}
-	if (!/aria-labelledby=/i.test(newOpen)) {
-			newOpen = newOpen.replace(
-				/<svg(\b[^>]*)>/i,
-				(_m: string, attrs: string) => `<svg${attrs} aria-labelledby="${titleId}">`
-			);
+		analyses.recordApplied(doc, 'svg', node.start, suggestion);
+		await saveIfConfigured(doc);
+
+		// Mostrar resultado com detalhes WCAG quando disponível
+		let resultMessage: string;
+		if (suggestion.wcagAnalysis) {
+			const wcag = suggestion.wcagAnalysis;
+			const tipo = classificationLabel(wcag.tipoImagem.classificacao);
+			const status = wcag.conformidade.status === 'conforme' ? '✅' : '⚠️';
+			resultMessage = suggestion.isDecorative 
+				? vscode.l10n.t('{0} WCAG 1.1.1: {1} image → aria-hidden="true"', status, tipo)
+				: vscode.l10n.t('{0} WCAG 1.1.1: {1} image → "{2}"', status, tipo, suggestion.titleText ?? '');
+		} else {
+			resultMessage = suggestion.isDecorative 
+				? vscode.l10n.t('✅ SVG marked as decorative (aria-hidden="true")')
+				: vscode.l10n.t('✅ Accessibility added: "{0}"', suggestion.titleText ?? '');
+		}
+		
+		vscode.window.showInformationMessage(resultMessage);
+	} catch (error) {
+		// Cancelado pelo usuário: a requisição foi abortada e nada foi alterado
+		if (isCancellation(error)) return;
+		vscode.window.showErrorMessage(vscode.l10n.t('Error processing SVG: {0}', (error as Error).message));
+	} finally {
+		statusBarItem.dispose();
+		tracker.dispose();
 	}
-	edit.replace(doc.uri, openingTagRange, newOpen);
-	// Insert title/desc after opening tag.
-	const insertPos = doc.positionAt(node.tagOpenRange.end);
-	const titleText = suggestion.titleText?.trim() || 'Gráfico';
-	const descText = suggestion.descText?.trim();
-	const parts = [`<title id="${titleId}">${escapeHtml(titleText)}</title>`];
-	if (descText) parts.push(`<desc>${escapeHtml(descText)}</desc>`);
-	edit.insert(doc.uri, insertPos, '\n  ' + parts.join('\n  ') + '\n');
-	return edit;
-}
-
-function generateTitleId(openingTag: string): string {
-	const base = 'svg-title-' + Math.random().toString(36).slice(2, 8);
-	return base;
-}
-
-function escapeHtml(str: string): string {
-	return str.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 // =====================================================
 // Fix para IMG
 // =====================================================
 
+/**
+ * Gera o alt da imagem do diagnóstico (ou sob o cursor) com a IA.
+ * `regenerate` inclui imagens que já têm alt e ignora o cache.
+ */
 async function applyFixForImg(
 	editor: vscode.TextEditor,
-	iaClient: ReturnType<typeof createIAClient>,
-	diagnosticRange?: vscode.Range
+	iaClient: IAClient,
+	analyses: AnalysisStore,
+	diagnosticRange?: vscode.Range,
+	regenerate = false
 ) {
 	const doc = editor.document;
 	const text = doc.getText();
-	const nodes = findImgNodes(text).filter(imgNeedsAccessibility);
+	const dialect = dialectForLanguage(doc.languageId);
+	const nodes = findImgNodes(text, dialect).filter((n) => regenerate || imgNeedsAccessibility(n));
 	
 	if (!nodes.length) {
-		vscode.window.showInformationMessage('Nenhuma imagem elegível encontrada.');
+		vscode.window.showInformationMessage(vscode.l10n.t('No eligible image found.'));
 		return;
 	}
 	
@@ -367,10 +529,17 @@ async function applyFixForImg(
 		}
 	}
 
+	// Link/botão, texto ao redor, legenda... ajudam o modelo a classificar a imagem;
+	// o idioma da página define o idioma do texto sugerido
+	const options = suggestOptionsFor(doc, text, target.element);
+
+	// O usuário pode continuar editando enquanto a IA responde
+	const tracker = new DocumentChangeTracker(doc);
+
 	// Criar item na barra de status
 	const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
-	statusBarItem.text = '$(sync~spin) Analisando imagem...';
-	statusBarItem.tooltip = 'A11Y Assist está analisando a imagem';
+	statusBarItem.text = vscode.l10n.t('$(sync~spin) Analyzing image...');
+	statusBarItem.tooltip = vscode.l10n.t('A11Y Assist is analyzing the image');
 	statusBarItem.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
 	statusBarItem.show();
 
@@ -378,91 +547,71 @@ async function applyFixForImg(
 	const useVision = config.get<boolean>('useVision') ?? false;
 
 	try {
-		await vscode.window.withProgress(
+		let suggestion = await vscode.window.withProgress(
 			{ 
 				location: vscode.ProgressLocation.Notification, 
 				title: 'A11Y Assist',
 				cancellable: true 
 			},
 			async (progress, token) => {
-				progress.report({ message: 'Preparando análise...', increment: 10 });
+				progress.report({ message: vscode.l10n.t('Preparing analysis...'), increment: 10 });
 				
 				if (token.isCancellationRequested) return;
 
 				progress.report({ 
 					message: useVision 
-						? 'Enviando imagem para IA...' 
-						: 'Analisando nome do arquivo...', 
+						? vscode.l10n.t('Sending image to the AI...')
+						: vscode.l10n.t('Analyzing file name...'),
 					increment: 20 
 				});
 				
 				statusBarItem.text = useVision 
-					? '$(sync~spin) Enviando para IA...' 
-					: '$(sync~spin) Analisando...';
-
-				// Passar o URI do documento para resolver caminhos relativos de imagens locais
-				const suggestion = await iaClient.suggestForImg(target.src, target.content, doc.uri);
-
-				if (token.isCancellationRequested) return;
-
-				progress.report({ message: 'Aplicando correção...', increment: 50 });
-				statusBarItem.text = '$(check) Aplicando correção...';
-
-				const edit = buildWorkspaceEditForImg(doc, target, suggestion);
-				await vscode.workspace.applyEdit(edit);
-				await doc.save();
+					? vscode.l10n.t('$(sync~spin) Sending to AI...')
+					: vscode.l10n.t('$(sync~spin) Analyzing...');
 
-				progress.report({ message: 'Concluído!', increment: 20 });
-				
-				let resultMessage: string;
-				if (suggestion.isDecorative) {
-					resultMessage = '✅ Imagem marcada como decorativa (alt="")';
-				} else {
-					resultMessage = `✅ Alt adicionado: "${suggestion.titleText}"`;
-				}
-				
-				vscode.window.showInformationMessage(resultMessage);
+				// Passar o caminho do documento para resolver caminhos relativos de imagens locais
+				const result = await iaClient.suggestForImg(target.src, target.content, doc.uri.fsPath, { ...options, signal: toAbortSignal(token), refresh: regenerate });
+				progress.report({ message: vscode.l10n.t('Done!'), increment: 70 });
+				return token.isCancellationRequested ? undefined : result;
 			}
 		);
-	} catch (error) {
-		vscode.window.showErrorMessage(`Erro ao processar imagem: ${(error as Error).message}`);
-	} finally {
-		statusBarItem.dispose();
-	}
-}
+		if (!suggestion) return;
 
-function buildWorkspaceEditForImg(
-	doc: vscode.TextDocument,
-	node: ImgNodeRange,
-	suggestion: IAResponseSuggestion
-): vscode.WorkspaceEdit {
-	const edit = new vscode.WorkspaceEdit();
-	const tagRange = new vscode.Range(
-		doc.positionAt(node.tagRange.start),
-		doc.positionAt(node.tagRange.end)
-	);
-	const tagText = doc.getText(tagRange);
-	
-	let newTag = tagText;
-	const altValue = suggestion.isDecorative ? '' : escapeHtml(suggestion.titleText?.trim() || 'Imagem');
-	
-	if (suggestion.isDecorative) {
-		// Imagem decorativa: alt="" 
-		// Adicionar alt="" antes do fechamento da tag
-		if (tagText.endsWith('/>')) {
-			newTag = tagText.replace(/\s*\/?>$/, ` alt="" />`);
-		} else {
-			newTag = tagText.replace(/\s*>$/, ` alt="">`);
+		if (isReviewEnabled()) {
+			statusBarItem.hide();
+			suggestion = await reviewSuggestion('img', suggestion, (signal) =>
+				iaClient.suggestForImg(target.src, target.content, doc.uri.fsPath, { ...options, signal, refresh: true }),
+				options.language
+			);
+			if (!suggestion) return;
 		}
-	} else {
-		// Imagem informativa: alt="descrição"
-		if (tagText.endsWith('/>')) {
-			newTag = tagText.replace(/\s*\/?>$/, ` alt="${altValue}" />`);
+
+		const node = tracker.relocate(target, (current) => findImgNodes(current, dialect));
+		if (!node) {
+			vscode.window.showWarningMessage(vscode.l10n.t('The image changed during the analysis; the fix was not applied. Run it again.'));
+			return;
+		}
+		if (!(await vscode.workspace.applyEdit(buildWorkspaceEditForImg(doc, node, suggestion)))) {
+			vscode.window.showWarningMessage(vscode.l10n.t('Could not apply the fix to the image.'));
+			return;
+		}
+		analyses.recordApplied(doc, 'img', node.start, suggestion);
+		await saveIfConfigured(doc);
+
+		let resultMessage: string;
+		if (suggestion.isDecorative) {
+			resultMessage = vscode.l10n.t('✅ Image marked as decorative (alt="")');
 		} else {
-			newTag = tagText.replace(/\s*>$/, ` alt="${altValue}">`);
+			resultMessage = vscode.l10n.t('✅ Alt added: "{0}"', suggestion.titleText ?? '');
 		}
+		
+		vscode.window.showInformationMessage(resultMessage);
+	} catch (error) {
+		// Cancelado pelo usuário: a requisição foi abortada e nada foi alterado
+		if (isCancellation(error)) return;
+		vscode.window.showErrorMessage(vscode.l10n.t('Error processing image: {0}', (error as Error).message));
+	} finally {
+		statusBarItem.dispose();
+		tracker.dispose();
 	}
-	
-	edit.replace(doc.uri, tagRange, newTag);
-	return edit;
 }
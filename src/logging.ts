@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { LogLevel, configureLogger } from './core';
+
+let channel: vscode.LogOutputChannel | undefined;
+
+function applyLogLevel(): void {
+	const level = vscode.workspace.getConfiguration('svgA11yAssist').get<LogLevel>('logLevel') ?? 'info';
+	configureLogger(channel!, level);
+}
+
+/**
+ * Cria o canal de log "A11Y Assist" e o conecta ao log do núcleo.
+ * O nível segue svgA11yAssist.logLevel (atualizado quando a configuração muda).
+ */
+export function initLogging(context: vscode.ExtensionContext): void {
+	channel = vscode.window.createOutputChannel('A11Y Assist', { log: true });
+	applyLogLevel();
+	context.subscriptions.push(
+		channel,
+		vscode.workspace.onDidChangeConfiguration((e) => {
+			if (e.affectsConfiguration('svgA11yAssist.logLevel')) applyLogLevel();
+		})
+	);
+}
+
+export function showLog(): void {
+	channel?.show(true);
+}
@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { AIProviderSetting, IAClientInfo } from './core';
+import { API_KEY_SECRET } from './credentials';
+
+/**
+ * Perfil salvo em svgA11yAssist.profiles (ex: "OpenAI", "Ollama local")
+ * Campos ausentes herdam as configurações normais.
+ */
+export interface AIProfile {
+	name: string;
+	provider?: AIProviderSetting;
+	endpoint?: string;
+	model?: string;
+	useVision?: boolean;
+}
+
+/** Chave de API de um perfil no SecretStorage */
+export function profileSecretKey(name: string): string {
+	return `${API_KEY_SECRET}.profile.${name}`;
+}
+
+/**
+ * Perfil ativo (svgA11yAssist.activeProfile), se existir em svgA11yAssist.profiles
+ */
+export function getActiveProfile(config = vscode.workspace.getConfiguration('svgA11yAssist')): AIProfile | undefined {
+	const name = config.get<string>('activeProfile');
+	if (!name) return undefined;
+	return (config.get<AIProfile[]>('profiles') ?? []).find((p) => p.name === name);
+}
+
+/**
+ * Item da barra de status com o provedor/modelo ativo; o clique troca de perfil
+ */
+export class ProviderStatusBar implements vscode.Disposable {
+	private readonly item = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+
+	constructor() {
+		this.item.command = 'a11yAssist.switchProfile';
+		this.item.name = vscode.l10n.t('A11Y Assist: AI Provider');
+	}
+
+	update(info: IAClientInfo, profile?: AIProfile): void {
+		const prefix = profile ? `${profile.name}: ` : '';
+		if (info.configured) {
+			this.item.text = `$(hubot) ${prefix}${info.providerLabel}${info.model ? ` · ${info.model}` : ''}`;
+			this.item.tooltip = [
+				vscode.l10n.t('Provider: {0} ({1})', info.providerLabel, info.providerId),
+				vscode.l10n.t('Model: {0}', info.model ?? vscode.l10n.t('provider default')),
+				vscode.l10n.t('Endpoint: {0}', info.endpoint ?? ''),
+				vscode.l10n.t('Vision mode: {0}', info.useVision ? vscode.l10n.t('on') : vscode.l10n.t('off')),
+				'',
+				vscode.l10n.t('Click to switch profile')
+			].join('\n');
+		} else {
+			this.item.text = `$(lightbulb) ${prefix}${vscode.l10n.t('A11Y: local heuristics')}`;
+			this.item.tooltip = [
+				vscode.l10n.t('No AI provider configured: suggestions generated by local heuristics.'),
+				vscode.l10n.t('Click to configure or switch profile')
+			].join('\n');
+		}
+		this.item.show();
+	}
+
+	dispose(): void {
+		this.item.dispose();
+	}
+}
+
+type ProfilePickItem = vscode.QuickPickItem & {
+	action: 'activate' | 'save' | 'configure';
+	profile?: string;
+};
+
+/**
+ * Quick pick de perfis: ativar um perfil salvo, voltar às configurações padrão,
+ * salvar a configuração atual como perfil ou abrir o assistente de provedor
+ */
+export async function showProfilePicker(context: vscode.ExtensionContext): Promise<void> {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const profiles = config.get<AIProfile[]>('profiles') ?? [];
+	const active = getActiveProfile(config)?.name;
+
+	const items: ProfilePickItem[] = [
+		{
+			action: 'activate',
+			label: `${active ? '' : '$(check) '}${vscode.l10n.t('Default settings')}`,
+			description: 'svgA11yAssist.provider / endpoint / model'
+		},
+		...profiles.map((p): ProfilePickItem => ({
+			action: 'activate',
+			profile: p.name,
+			label: `${p.name === active ? '$(check) ' : ''}${p.name}`,
+			description: [p.provider, p.model].filter(Boolean).join(' · '),
+			detail: p.endpoint
+		})),
+		{ action: 'save', label: vscode.l10n.t('$(save) Save current settings as a profile...') },
+		{ action: 'configure', label: vscode.l10n.t('$(gear) Configure AI Provider...') }
+	];
+
+	const picked = await vscode.window.showQuickPick(items, {
+		title: vscode.l10n.t('A11Y Assist: AI Profile'),
+		placeHolder: vscode.l10n.t('Choose the provider/model profile')
+	});
+	if (!picked) return;
+
+	if (picked.action === 'configure') {
+		await vscode.commands.executeCommand('a11yAssist.configureProvider');
+		return;
+	}
+	if (picked.action === 'save') {
+		await saveCurrentAsProfile(context, profiles);
+		return;
+	}
+	await config.update('activeProfile', picked.profile ?? '', vscode.ConfigurationTarget.Global);
+}
+
+/**
+ * Grava provedor/endpoint/modelo/visão efetivos como um perfil; a chave de API
+ * atual é copiada para o segredo do perfil
+ */
+async function saveCurrentAsProfile(context: vscode.ExtensionContext, profiles: AIProfile[]): Promise<void> {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const name = (await vscode.window.showInputBox({
+		title: vscode.l10n.t('Save AI profile'),
+		prompt: vscode.l10n.t('Profile name'),
+		ignoreFocusOut: true,
+		validateInput: (value) => (value.trim() ? undefined : vscode.l10n.t('Enter a name'))
+	}))?.trim();
+	if (!name) return;
+
+	const base = getActiveProfile(config);
+	const profile: AIProfile = {
+		name,
+		provider: base?.provider ?? config.get<AIProviderSetting>('provider'),
+		endpoint: base?.endpoint ?? config.get<string>('endpoint'),
+		model: base?.model ?? config.get<string>('model'),
+		useVision: base?.useVision ?? config.get<boolean>('useVision')
+	};
+	const apiKey = (base && (await context.secrets.get(profileSecretKey(base.name))))
+		|| (await context.secrets.get(API_KEY_SECRET));
+	if (apiKey) {
+		await context.secrets.store(profileSecretKey(name), apiKey);
+	}
+
+	const updated = [...profiles.filter((p) => p.name !== name), profile];
+	await config.update('profiles', updated, vscode.ConfigurationTarget.Global);
+	await config.update('activeProfile', name, vscode.ConfigurationTarget.Global);
+	vscode.window.showInformationMessage(vscode.l10n.t('Profile "{0}" saved and activated.', name));
+}
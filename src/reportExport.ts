@@ -0,0 +1,187 @@
+import * as vscode from 'vscode';
+import {
+	A11yRuleId,
+	DIAGNOSTIC_CODE_SVG,
+	DIAGNOSTIC_CODE_IMG,
+	IAResponseSuggestion,
+	ReportEntry,
+	buildJsonReport,
+	buildSarifReport,
+	dialectForLanguage,
+	findSvgNodes,
+	findImgNodes,
+	needsAccessibility,
+	imgNeedsAccessibility
+} from './core';
+
+interface StoredAnalysis {
+	uri: vscode.Uri;
+	rule: A11yRuleId;
+	range: vscode.Range;
+	suggestion: IAResponseSuggestion;
+}
+
+/**
+ * Guarda, por elemento, o resultado da última execução de IA na sessão
+ * para que possa ser incluído nos relatórios exportados.
+ */
+export class AnalysisStore {
+	private readonly entries = new Map<string, StoredAnalysis>();
+
+	/**
+	 * Registra a análise do elemento que começa em `start` no texto atual.
+	 * Só registra se a correção está de fato no documento (o elemento não precisa
+	 * mais de acessibilidade); chamar depois de aplicar a edição.
+	 */
+	recordApplied(doc: vscode.TextDocument, kind: 'svg' | 'img', start: number, suggestion: IAResponseSuggestion): boolean {
+		const node = fixedNodeAt(doc, kind, start);
+		if (!node) return false;
+		const range = new vscode.Range(doc.positionAt(node.start), doc.positionAt(node.end));
+		const rule = kind === 'svg' ? DIAGNOSTIC_CODE_SVG : DIAGNOSTIC_CODE_IMG;
+		this.entries.set(analysisKey(doc.uri, range.start), { uri: doc.uri, rule, range, suggestion });
+		return true;
+	}
+
+	get(uri: vscode.Uri, start: vscode.Position): StoredAnalysis | undefined {
+		return this.entries.get(analysisKey(uri, start));
+	}
+
+	all(): StoredAnalysis[] {
+		return [...this.entries.values()];
+	}
+}
+
+function analysisKey(uri: vscode.Uri, start: vscode.Position): string {
+	return `${uri.toString()}#${start.line}:${start.character}`;
+}
+
+/**
+ * <svg>/<img> que começa em `start` e já tem acessibilidade (undefined se não existe mais ou ainda precisa de correção)
+ */
+function fixedNodeAt(doc: vscode.TextDocument, kind: 'svg' | 'img', start: number): { start: number; end: number } | undefined {
+	const text = doc.getText();
+	const dialect = dialectForLanguage(doc.languageId);
+	if (kind === 'svg') {
+		const node = findSvgNodes(text, dialect).find((n) => n.start === start);
+		return node && !needsAccessibility(node) ? node : undefined;
+	}
+	const node = findImgNodes(text, dialect).find((n) => n.start === start);
+	return node && !imgNeedsAccessibility(node) ? node : undefined;
+}
+
+/**
+ * A correção registrada continua no arquivo? (pode ter sido desfeita ou o arquivo removido)
+ */
+async function isStillFixed(analysis: StoredAnalysis): Promise<boolean> {
+	try {
+		const doc = await vscode.workspace.openTextDocument(analysis.uri);
+		const kind = analysis.rule === DIAGNOSTIC_CODE_SVG ? 'svg' : 'img';
+		return !!fixedNodeAt(doc, kind, doc.offsetAt(analysis.range.start));
+	} catch {
+		return false;
+	}
+}
+
+type ReportFormat = 'sarif' | 'json';
+
+function toEntry(
+	uri: vscode.Uri,
+	rule: A11yRuleId,
+	message: string,
+	range: vscode.Range,
+	status: ReportEntry['status'],
+	suggestion?: IAResponseSuggestion
+): ReportEntry {
+	return {
+		file: vscode.workspace.asRelativePath(uri, false),
+		rule,
+		message,
+		status,
+		line: range.start.line + 1,
+		column: range.start.character + 1,
+		endLine: range.end.line + 1,
+		endColumn: range.end.character + 1,
+		...(suggestion?.wcagAnalysis ? { wcagAnalysis: suggestion.wcagAnalysis } : {}),
+		...(suggestion && !suggestion.isDecorative && suggestion.titleText
+			? { suggestedText: suggestion.titleText }
+			: {})
+	};
+}
+
+/**
+ * Junta os diagnósticos atuais com as análises de IA da sessão.
+ * Análises sem diagnóstico correspondente viram itens "corrigidos" se a
+ * correção ainda estiver no arquivo (o arquivo pode nunca ter sido auditado).
+ */
+async function collectEntries(collection: vscode.DiagnosticCollection, store: AnalysisStore): Promise<ReportEntry[]> {
+	const entries: ReportEntry[] = [];
+	const matched = new Set<StoredAnalysis>();
+
+	collection.forEach((uri, diagnostics) => {
+		for (const diag of diagnostics) {
+			if (diag.code !== DIAGNOSTIC_CODE_SVG && diag.code !== DIAGNOSTIC_CODE_IMG) continue;
+			const analysis = store.get(uri, diag.range.start);
+			if (analysis) matched.add(analysis);
+			entries.push(toEntry(uri, diag.code, diag.message, diag.range, 'open', analysis?.suggestion));
+		}
+	});
+
+	for (const analysis of store.all()) {
+		if (matched.has(analysis) || !(await isStillFixed(analysis))) continue;
+		entries.push(
+			toEntry(analysis.uri, analysis.rule, vscode.l10n.t('Fixed with A11Y Assist'), analysis.range, 'fixed', analysis.suggestion)
+		);
+	}
+	return entries;
+}
+
+/**
+ * Exporta os achados atuais (e as análises WCAG da IA) como SARIF 2.1.0 ou JSON
+ */
+export async function exportReport(
+	collection: vscode.DiagnosticCollection,
+	store: AnalysisStore,
+	toolVersion: string
+): Promise<void> {
+	const entries = await collectEntries(collection, store);
+	if (!entries.length) {
+		vscode.window.showInformationMessage(
+			vscode.l10n.t('No findings to export. Run "A11Y Assist: Audit Workspace Accessibility" first.')
+		);
+		return;
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		[
+			{
+				label: 'SARIF 2.1.0',
+				description: vscode.l10n.t('For quality dashboards and Code Scanning'),
+				format: 'sarif' as ReportFormat
+			},
+			{ label: 'JSON', description: vscode.l10n.t('Simple report'), format: 'json' as ReportFormat }
+		],
+		{ placeHolder: vscode.l10n.t('Report format') }
+	);
+	if (!picked) return;
+
+	const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+	const fileName = picked.format === 'sarif' ? 'a11y-report.sarif' : 'a11y-report.json';
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: root ? vscode.Uri.joinPath(root, fileName) : undefined,
+		filters: picked.format === 'sarif' ? { SARIF: ['sarif', 'json'] } : { JSON: ['json'] }
+	});
+	if (!target) return;
+
+	const options = { toolVersion, rootUri: root?.toString() };
+	const report = picked.format === 'sarif' ? buildSarifReport(entries, options) : buildJsonReport(entries, options);
+	await vscode.workspace.fs.writeFile(target, Buffer.from(JSON.stringify(report, null, 2) + '\n', 'utf-8'));
+
+	const open = vscode.l10n.t('Open');
+	const choice = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Report exported with {0} item(s): {1}', entries.length, vscode.workspace.asRelativePath(target)),
+		open
+	);
+	if (choice === open) {
+		await vscode.window.showTextDocument(target);
+	}
+}
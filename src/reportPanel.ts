@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import { randomBytes } from 'node:crypto';
+import {
+	IAClient,
+	IAResponseSuggestion,
+	HtmlReportAction,
+	HtmlReportFile,
+	HtmlReportItem,
+	HtmlReportStrings,
+	InventoryItem,
+	collectInventory,
+	createPositionResolver,
+	renderHtmlReport,
+	renderHtmlReportFile,
+	renderSvgToBase64,
+	dialectForLanguage,
+	languageIdForPath,
+	findSvgNodes,
+	findImgNodes,
+	isExternalImageSrc,
+	resolveLocalImagePath,
+	imageMimeType,
+	isCancellation,
+	SuggestOptions
+} from './core';
+import { findAuditableFiles, readFileText } from './workspaceAudit';
+import { buildWorkspaceEditForSuggestion, buildWorkspaceEditForImg } from './workspaceEdits';
+import { AnalysisStore } from './reportExport';
+import { suggestOptionsFor, toAbortSignal } from './vscodeHost';
+import { classificationLabel, isReviewEnabled, reviewSuggestion } from './suggestionReview';
+import { DocumentChangeTracker, saveIfConfigured } from './editGuard';
+
+/** Imagens locais maiores que isso não ganham miniatura (o HTML exportado ficaria enorme) */
+const MAX_THUMBNAIL_BYTES = 1024 * 1024;
+
+interface ReportMessage {
+	type: HtmlReportAction | 'refresh' | 'export';
+	fileId?: string;
+	itemId?: string;
+}
+
+interface ReportFileState {
+	uri: vscode.Uri;
+	report: HtmlReportFile;
+}
+
+/**
+ * Painel (webview) com o inventário de <svg>/<img> do workspace
+ */
+export class A11yReportPanel {
+	private static current: A11yReportPanel | undefined;
+
+	private files: ReportFileState[] = [];
+	private readonly nonce = randomBytes(16).toString('hex');
+
+	private constructor(
+		private readonly panel: vscode.WebviewPanel,
+		/** Cliente atual (recriado quando as credenciais mudam) */
+		private readonly iaClient: () => IAClient,
+		private readonly analyses: AnalysisStore
+	) {
+		panel.onDidDispose(() => {
+			A11yReportPanel.current = undefined;
+		});
+		panel.webview.onDidReceiveMessage((message: ReportMessage) => this.handleMessage(message));
+	}
+
+	/**
+	 * Abre o painel (ou reaproveita o existente) e varre o workspace
+	 */
+	static async show(iaClient: () => IAClient, analyses: AnalysisStore): Promise<void> {
+		if (!vscode.workspace.workspaceFolders?.length) {
+			vscode.window.showInformationMessage(vscode.l10n.t('Open a folder or workspace to generate the report.'));
+			return;
+		}
+		if (A11yReportPanel.current) {
+			A11yReportPanel.current.panel.reveal();
+		} else {
+			const panel = vscode.window.createWebviewPanel(
+				'a11yAssist.report',
+				vscode.l10n.t('Accessibility Report'),
+				vscode.ViewColumn.Active,
+				{ enableScripts: true, localResourceRoots: [] }
+			);
+			A11yReportPanel.current = new A11yReportPanel(panel, iaClient, analyses);
+		}
+		await A11yReportPanel.current.refresh();
+	}
+
+	private async refresh(): Promise<void> {
+		const files = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: vscode.l10n.t('A11Y Assist: Generating report'),
+				cancellable: true
+			},
+			async (progress, token) => {
+				const states: ReportFileState[] = [];
+				const uris = await findAuditableFiles(token);
+				for (const uri of uris) {
+					if (token.isCancellationRequested) return undefined;
+					progress.report({ message: vscode.workspace.asRelativePath(uri), increment: 100 / uris.length });
+					const state = await this.buildFileState(uri, String(states.length));
+					if (state?.report.items.length) states.push(state);
+				}
+				return states.sort((a, b) => a.report.file.localeCompare(b.report.file));
+			}
+		);
+		if (!files) return;
+		this.files = files;
+		this.panel.webview.html = renderHtmlReport(
+			files.map((f) => f.report),
+			{
+				webview: { cspSource: this.panel.webview.cspSource, nonce: this.nonce },
+				strings: reportStrings(),
+				remoteImages: remoteThumbnailsEnabled()
+			}
+		);
+	}
+
+	private async buildFileState(uri: vscode.Uri, id: string): Promise<ReportFileState | undefined> {
+		const languageId = languageIdForPath(uri.path);
+		if (!languageId) return undefined;
+		const text = await readFileText(uri);
+		const positionAt = createPositionResolver(text);
+		const items: HtmlReportItem[] = [];
+		for (const item of collectInventory(text, dialectForLanguage(languageId))) {
+			const pos = positionAt(item.start);
+			const classification = this.analyses.get(uri, new vscode.Position(pos.line, pos.character))
+				?.suggestion.wcagAnalysis?.tipoImagem.classificacao;
+			items.push({
+				...item,
+				id: String(item.start),
+				thumbnail: await thumbnailFor(item, uri),
+				classification: classification && classificationLabel(classification)
+			});
+		}
+		return { uri, report: { id, file: vscode.workspace.asRelativePath(uri), items } };
+	}
+
+	private async handleMessage(message: ReportMessage): Promise<void> {
+		switch (message.type) {
+			case 'refresh':
+				return this.refresh();
+			case 'export':
+				return this.exportHtml();
+		}
+
+		const state = this.files.find((f) => f.report.id === message.fileId);
+		const item = state?.report.items.find((i) => i.id === message.itemId);
+		if (!state || !item) return;
+		try {
+			if (message.type === 'reveal') {
+				await revealItem(state.uri, item);
+			} else {
+				await this.applyAction(state, item, message.type === 'markDecorative');
+			}
+		} catch (error) {
+			if (!isCancellation(error)) {
+				vscode.window.showErrorMessage(vscode.l10n.t('Error processing element: {0}', (error as Error).message));
+			}
+		} finally {
+			this.panel.webview.postMessage({ type: 'done', fileId: state.report.id, itemId: item.id });
+		}
+	}
+
+	/**
+	 * Regenera a sugestão (IA) ou marca o elemento como decorativo e atualiza a seção do arquivo
+	 */
+	private async applyAction(state: ReportFileState, item: HtmlReportItem, decorative: boolean): Promise<void> {
+		const doc = await vscode.workspace.openTextDocument(state.uri);
+		const text = doc.getText();
+		const dialect = dialectForLanguage(doc.languageId);
+		const node = item.kind === 'svg'
+			? findSvgNodes(text, dialect).find((n) => n.start === item.start)
+			: findImgNodes(text, dialect).find((n) => n.start === item.start);
+		if (!node || node.content !== item.markup) {
+			vscode.window.showWarningMessage(vscode.l10n.t('The file changed since the report was generated. Click "Refresh".'));
+			return;
+		}
+
+		const tracker = new DocumentChangeTracker(doc);
+		try {
+			let suggestion: IAResponseSuggestion | undefined = { isDecorative: true };
+			if (!decorative) {
+				const options = suggestOptionsFor(doc, text, node.element);
+				const suggest = (extra: SuggestOptions) => 'src' in node
+					? this.iaClient().suggestForImg(node.src, node.content, doc.uri.fsPath, { ...options, ...extra })
+					: this.iaClient().suggestForSvg(node.content, { ...options, ...extra });
+				suggestion = await vscode.window.withProgress(
+					{ location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('A11Y Assist: Querying AI...'), cancellable: true },
+					// "Gerar novamente": ignora o cache, senão voltaria a mesma sugestão
+					(_progress, token) => suggest({ signal: toAbortSignal(token), refresh: true })
+				);
+				if (isReviewEnabled()) {
+					suggestion = await reviewSuggestion(
+						item.kind,
+						suggestion,
+						(signal) => suggest({ signal, refresh: true }),
+						options.language
+					);
+					if (!suggestion) return;
+				}
+			}
+
+			// O arquivo pode ter sido editado enquanto a IA respondia
+			const current = 'src' in node
+				? tracker.relocate(node, (t) => findImgNodes(t, dialect))
+				: tracker.relocate(node, (t) => findSvgNodes(t, dialect));
+			if (!current) {
+				vscode.window.showWarningMessage(
+					vscode.l10n.t('The element changed during the analysis; the fix was not applied. Click "Refresh".')
+				);
+				return;
+			}
+			const edit = 'src' in current
+				? buildWorkspaceEditForImg(doc, current, suggestion)
+				: buildWorkspaceEditForSuggestion(doc, current, suggestion);
+			if (!(await vscode.workspace.applyEdit(edit))) return;
+			if (!decorative) this.analyses.recordApplied(doc, item.kind, current.start, suggestion);
+			await saveIfConfigured(doc);
+		} finally {
+			tracker.dispose();
+		}
+
+		const updated = await this.buildFileState(state.uri, state.report.id);
+		if (!updated) return;
+		state.report = updated.report;
+		this.panel.webview.postMessage({
+			type: 'updateFile',
+			fileId: state.report.id,
+			html: renderHtmlReportFile(state.report, true, reportStrings(), remoteThumbnailsEnabled())
+		});
+	}
+
+	/**
+	 * Exporta o relatório como HTML autônomo (sem scripts, miniaturas embutidas)
+	 */
+	private async exportHtml(): Promise<void> {
+		const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+		const target = await vscode.window.showSaveDialog({
+			defaultUri: root ? vscode.Uri.joinPath(root, 'a11y-report.html') : undefined,
+			filters: { HTML: ['html'] }
+		});
+		if (!target) return;
+		const html = renderHtmlReport(
+			this.files.map((f) => f.report),
+			{ strings: reportStrings(), remoteImages: remoteThumbnailsEnabled() }
+		);
+		await vscode.workspace.fs.writeFile(target, Buffer.from(html, 'utf-8'));
+		vscode.window.showInformationMessage(vscode.l10n.t('HTML report exported: {0}', vscode.workspace.asRelativePath(target)));
+	}
+}
+
+/**
+ * svgA11yAssist.report.remoteThumbnails: miniaturas de URLs externas (fora do padrão, evita requisições ao abrir o relatório)
+ */
+function remoteThumbnailsEnabled(): boolean {
+	return vscode.workspace.getConfiguration('svgA11yAssist').get<boolean>('report.remoteThumbnails') ?? false;
+}
+
+/**
+ * Textos do relatório HTML no idioma da interface
+ */
+function reportStrings(): HtmlReportStrings {
+	return {
+		lang: vscode.env.language,
+		title: vscode.l10n.t('Accessibility Report - A11Y Assist'),
+		heading: vscode.l10n.t('Accessibility Report (WCAG 2.2 - 1.1.1)'),
+		generatedAt: vscode.l10n.t('Generated on {0} by A11Y Assist'),
+		elementsInFiles: vscode.l10n.t('{0} element(s) in {1} file(s)'),
+		missingCount: vscode.l10n.t('{0} without alternative'),
+		decorativeCount: vscode.l10n.t('{0} decorative'),
+		labelledCount: vscode.l10n.t('{0} with alternative text'),
+		refresh: vscode.l10n.t('Refresh'),
+		exportHtml: vscode.l10n.t('Export HTML'),
+		noElements: vscode.l10n.t('No <svg> or <img> found.'),
+		noElementsInFile: vscode.l10n.t('No <svg> or <img> in this file.'),
+		columnPreview: vscode.l10n.t('Preview'),
+		columnElement: vscode.l10n.t('Element'),
+		columnStatus: vscode.l10n.t('Status'),
+		columnCurrentAlt: vscode.l10n.t('Current alternative text'),
+		columnClassification: vscode.l10n.t('WCAG classification'),
+		columnActions: vscode.l10n.t('Actions'),
+		position: vscode.l10n.t('line {0}, column {1}'),
+		reveal: vscode.l10n.t('Go to code'),
+		regenerate: vscode.l10n.t('Regenerate'),
+		markDecorative: vscode.l10n.t('Mark decorative'),
+		remoteImage: vscode.l10n.t('Remote image (not loaded)'),
+		status: {
+			missing: vscode.l10n.t('No alternative'),
+			decorative: vscode.l10n.t('Decorative'),
+			labelled: vscode.l10n.t('With alternative text')
+		}
+	};
+}
+
+async function revealItem(uri: vscode.Uri, item: InventoryItem): Promise<void> {
+	const doc = await vscode.workspace.openTextDocument(uri);
+	const range = new vscode.Range(doc.positionAt(item.start), doc.positionAt(item.start));
+	await vscode.window.showTextDocument(doc, { selection: range, viewColumn: vscode.ViewColumn.One });
+}
+
+/**
+ * Miniatura do elemento: SVG renderizado ou a própria imagem (URL externa ou arquivo local embutido)
+ */
+async function thumbnailFor(item: InventoryItem, documentUri: vscode.Uri): Promise<string | undefined> {
+	if (item.kind === 'svg') {
+		try {
+			// Fundo transparente: a miniatura já fica sobre um xadrez
+			const rendered = await renderSvgToBase64(item.markup, { scale: 1, background: '' });
+			return `data:${rendered.mimeType};base64,${rendered.base64}`;
+		} catch {
+			return undefined;
+		}
+	}
+	const src = item.src;
+	if (!src) return undefined;
+	if (isExternalImageSrc(src)) return src;
+	if (documentUri.scheme !== 'file') return undefined;
+	try {
+		const imageUri = vscode.Uri.file(resolveLocalImagePath(src, documentUri.fsPath));
+		const stat = await vscode.workspace.fs.stat(imageUri);
+		if (stat.size > MAX_THUMBNAIL_BYTES) return undefined;
+		const data = await vscode.workspace.fs.readFile(imageUri);
+		return `data:${imageMimeType(imageUri.fsPath)};base64,${Buffer.from(data).toString('base64')}`;
+	} catch {
+		return undefined;
+	}
+}
@@ -0,0 +1,197 @@
+import * as vscode from 'vscode';
+import { IAResponseSuggestion, WCAGAnalysis, isCancellation } from './core';
+import { toAbortSignal } from './vscodeHost';
+
+/** Elemento revisado: muda os textos exibidos (título/descrição x alt) */
+export type ReviewKind = 'svg' | 'img';
+
+/** Pede uma nova sugestão à IA, ignorando o cache */
+export type RegenerateSuggestion = (signal: AbortSignal) => Promise<IAResponseSuggestion>;
+
+type ReviewAction = 'accept' | 'editTitle' | 'editDesc' | 'regenerate' | 'decorative' | 'copyTranslations';
+
+type ReviewPickItem = vscode.QuickPickItem & { action?: ReviewAction; text?: string };
+
+/**
+ * A revisão está habilitada (svgA11yAssist.reviewSuggestions)?
+ */
+export function isReviewEnabled(): boolean {
+	return vscode.workspace.getConfiguration('svgA11yAssist').get<boolean>('reviewSuggestions') ?? true;
+}
+
+/**
+ * Mostra a sugestão antes de aplicá-la: aceitar, editar o texto, gerar novamente
+ * ou marcar como decorativa. Retorna a sugestão final, ou undefined se cancelado.
+ * `language` é o idioma do texto sugerido (chave do JSON de traduções copiado).
+ */
+export async function reviewSuggestion(
+	kind: ReviewKind,
+	initial: IAResponseSuggestion,
+	regenerate: RegenerateSuggestion,
+	language?: string
+): Promise<IAResponseSuggestion | undefined> {
+	let suggestion = initial;
+	const titleLabel = kind === 'svg' ? vscode.l10n.t('title') : vscode.l10n.t('alt');
+
+	for (;;) {
+		const picked = await vscode.window.showQuickPick(buildItems(kind, suggestion, titleLabel), {
+			title: describeAnalysis(kind, suggestion),
+			placeHolder: suggestion.wcagAnalysis?.conformidade.justificativa || vscode.l10n.t('Review the suggestion before applying it'),
+			ignoreFocusOut: true,
+			matchOnDetail: true
+		});
+		if (!picked?.action) return undefined;
+
+		switch (picked.action) {
+			case 'accept':
+				// Alternativa escolhida substitui o texto principal
+				return picked.text ? { ...suggestion, titleText: picked.text } : suggestion;
+			case 'decorative':
+				return { isDecorative: true };
+			case 'editTitle': {
+				const value = await vscode.window.showInputBox({
+					title: kind === 'svg' ? vscode.l10n.t('Text of the <title>') : vscode.l10n.t('Text of the alt attribute'),
+					value: suggestion.titleText ?? '',
+					ignoreFocusOut: true,
+					validateInput: (text) => (text.trim() ? undefined : vscode.l10n.t('Enter the {0} (or mark it as decorative)', titleLabel))
+				});
+				// Editar o texto torna a imagem informativa
+				if (value !== undefined) suggestion = { ...suggestion, isDecorative: false, titleText: value.trim() };
+				break;
+			}
+			case 'editDesc': {
+				const value = await vscode.window.showInputBox({
+					title: vscode.l10n.t('Text of the <desc> (empty removes it)'),
+					value: suggestion.descText ?? '',
+					ignoreFocusOut: true
+				});
+				// Descrição vazia remove o <desc> que o SVG já tiver
+				if (value !== undefined) suggestion = { ...suggestion, descText: value.trim(), removeDesc: !value.trim() };
+				break;
+			}
+			case 'regenerate': {
+				const regenerated = await regenerateWithProgress(regenerate);
+				if (regenerated) suggestion = regenerated;
+				break;
+			}
+			case 'copyTranslations':
+				await vscode.env.clipboard.writeText(translationsJson(kind, suggestion, language));
+				vscode.window.showInformationMessage(vscode.l10n.t('Translations copied to the clipboard.'));
+				break;
+		}
+	}
+}
+
+function buildItems(kind: ReviewKind, suggestion: IAResponseSuggestion, titleLabel: string): ReviewPickItem[] {
+	const items: ReviewPickItem[] = [];
+	if (suggestion.isDecorative) {
+		items.push({
+			action: 'accept',
+			label: vscode.l10n.t('$(check) Apply as decorative'),
+			description: kind === 'svg' ? 'aria-hidden="true"' : 'alt=""'
+		});
+	} else {
+		items.push({
+			action: 'accept',
+			label: vscode.l10n.t('$(check) Apply: "{0}"', suggestion.titleText ?? ''),
+			detail: kind === 'svg' && suggestion.descText ? vscode.l10n.t('Description: {0}', suggestion.descText) : undefined
+		});
+		const alternatives = (suggestion.alternatives ?? []).filter((a) => a.text !== suggestion.titleText?.trim());
+		if (alternatives.length) {
+			items.push({ label: vscode.l10n.t('Alternatives'), kind: vscode.QuickPickItemKind.Separator });
+			for (const alternative of alternatives) {
+				items.push({
+					action: 'accept',
+					text: alternative.text,
+					label: `$(check) "${alternative.text}"`,
+					description: `${alternative.length === 'short' ? vscode.l10n.t('short') : vscode.l10n.t('long')} · ${Math.round(alternative.confidence * 100)}%`
+				});
+			}
+			items.push({ label: '', kind: vscode.QuickPickItemKind.Separator });
+		}
+	}
+	items.push({
+		action: 'editTitle',
+		label: vscode.l10n.t('$(edit) Edit {0}...', titleLabel),
+		description: suggestion.isDecorative ? vscode.l10n.t('treats the image as informative') : undefined
+	});
+	if (kind === 'svg' && !suggestion.isDecorative) {
+		items.push({ action: 'editDesc', label: vscode.l10n.t('$(edit) Edit description...') });
+	}
+	if (!suggestion.isDecorative && suggestion.translations) {
+		items.push({
+			action: 'copyTranslations',
+			label: vscode.l10n.t('$(globe) Copy translations (i18n JSON)'),
+			description: Object.keys(suggestion.translations).join(', ')
+		});
+	}
+	items.push({
+		action: 'regenerate',
+		label: vscode.l10n.t('$(refresh) Regenerate'),
+		description: vscode.l10n.t('new AI query, without cache')
+	});
+	if (!suggestion.isDecorative) {
+		items.push({
+			action: 'decorative',
+			label: vscode.l10n.t('$(eye-closed) Mark as decorative'),
+			description: kind === 'svg' ? 'aria-hidden="true"' : 'alt=""'
+		});
+	}
+	return items;
+}
+
+/**
+ * Texto em todos os idiomas, por código (ex: { "pt-BR": { "alt": "..." }, "en": { "alt": "..." } })
+ */
+function translationsJson(kind: ReviewKind, suggestion: IAResponseSuggestion, language = 'default'): string {
+	const entry = (title = '', desc?: string) => kind === 'svg'
+		? { title, ...(desc ? { desc } : {}) }
+		: { alt: title };
+	const json: Record<string, object> = { [language]: entry(suggestion.titleText, suggestion.descText) };
+	for (const [code, t] of Object.entries(suggestion.translations ?? {})) {
+		json[code] = entry(t.titleText, t.descText);
+	}
+	return JSON.stringify(json, null, 2);
+}
+
+/**
+ * Título do quick pick: classificação e conformidade WCAG, quando disponíveis
+ */
+function describeAnalysis(kind: ReviewKind, suggestion: IAResponseSuggestion): string {
+	const element = kind === 'svg' ? 'SVG' : vscode.l10n.t('Image');
+	const wcag = suggestion.wcagAnalysis;
+	if (!wcag) return vscode.l10n.t('A11Y Assist: Review suggestion ({0})', element);
+	const status = wcag.conformidade.status === 'conforme'
+		? `✅ ${vscode.l10n.t('conforming')}`
+		: `⚠️ ${vscode.l10n.t('non-conforming')}`;
+	return `A11Y Assist: ${element} · ${classificationLabel(wcag.tipoImagem.classificacao)} · ${status}`;
+}
+
+/**
+ * Tipo de imagem WCAG no idioma da interface (a IA responde com os valores em português)
+ */
+export function classificationLabel(classification: WCAGAnalysis['tipoImagem']['classificacao']): string {
+	switch (classification) {
+		case 'Decorativa': return vscode.l10n.t('Decorative');
+		case 'Funcional': return vscode.l10n.t('Functional');
+		case 'Informativa': return vscode.l10n.t('Informative');
+		case 'Complexa': return vscode.l10n.t('Complex');
+		case 'Captcha': return vscode.l10n.t('CAPTCHA');
+		case 'Texto em Imagem': return vscode.l10n.t('Image of Text');
+	}
+}
+
+async function regenerateWithProgress(regenerate: RegenerateSuggestion): Promise<IAResponseSuggestion | undefined> {
+	try {
+		return await vscode.window.withProgress(
+			{ location: vscode.ProgressLocation.Notification, title: vscode.l10n.t('A11Y Assist: Generating a new suggestion...'), cancellable: true },
+			(_progress, token) => regenerate(toAbortSignal(token))
+		);
+	} catch (error) {
+		// Cancelado: volta para a sugestão anterior
+		if (!isCancellation(error)) {
+			vscode.window.showErrorMessage(vscode.l10n.t('Error generating a new suggestion: {0}', (error as Error).message));
+		}
+		return undefined;
+	}
+}
@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import { ConnectionErrorKind, ConnectionExchange, IAClient, ProbeResult, isCancellation, redactSecrets } from './core';
+import { toAbortSignal } from './vscodeHost';
+
+function errorHint(kind: ConnectionErrorKind): string {
+	switch (kind) {
+		case 'auth': return vscode.l10n.t('invalid API key or missing permission');
+		case 'model-not-found': return vscode.l10n.t('model not found at the provider');
+		case 'rate-limit': return vscode.l10n.t('rate limit/quota exceeded');
+		case 'rejected': return vscode.l10n.t('request rejected by the provider');
+		case 'server': return vscode.l10n.t('provider server error');
+		case 'timeout': return vscode.l10n.t('timed out');
+		case 'network': return vscode.l10n.t('network failure (endpoint unreachable?)');
+		case 'invalid-response': return vscode.l10n.t('response in an unexpected format');
+	}
+}
+
+let channel: vscode.OutputChannel | undefined;
+
+function getChannel(): vscode.OutputChannel {
+	channel ??= vscode.window.createOutputChannel(vscode.l10n.t('A11Y Assist: Connection Test'));
+	return channel;
+}
+
+function describeProbe(result: ProbeResult): string {
+	if (result.skipped) return vscode.l10n.t('not run');
+	if (result.ok) return vscode.l10n.t('OK in {0}ms ("{1}")', result.latencyMs ?? 0, result.reply ?? '');
+	const hint = result.error ? errorHint(result.error.kind) : vscode.l10n.t('failed');
+	return vscode.l10n.t('{0} after {1}ms', `${hint}${result.status ? ` (HTTP ${result.status})` : ''}`, result.latencyMs ?? 0);
+}
+
+function logExchange(out: vscode.OutputChannel, exchange: ConnectionExchange): void {
+	const probe = exchange.probe === 'text' ? vscode.l10n.t('Text') : vscode.l10n.t('Vision');
+	out.appendLine(vscode.l10n.t('--- {0}: request ---', probe));
+	out.appendLine(`POST ${exchange.request.url}`);
+	for (const [name, value] of Object.entries(exchange.request.headers)) {
+		out.appendLine(`${name}: ${value}`);
+	}
+	out.appendLine(exchange.request.body);
+	if (exchange.response) {
+		out.appendLine(vscode.l10n.t('--- {0}: HTTP response {1} ---', probe, exchange.response.status));
+		out.appendLine(exchange.response.body);
+	}
+	if (exchange.error) {
+		out.appendLine(vscode.l10n.t('--- Error: {0}', exchange.error));
+	}
+	out.appendLine('');
+}
+
+/**
+ * Comando "Testar Conexão com a IA": pedido mínimo de texto e de visão pelo
+ * provedor configurado, com a troca completa (sem segredos) no canal de saída
+ */
+export async function testConnection(iaClient: IAClient): Promise<void> {
+	const out = getChannel();
+	const info = iaClient.info;
+	out.clear();
+	out.appendLine(`[${new Date().toISOString()}] ${vscode.l10n.t('Connection test')}`);
+	out.appendLine(vscode.l10n.t('Provider: {0} ({1})', info.providerLabel, info.providerId));
+	out.appendLine(vscode.l10n.t('Model: {0}', info.model ?? vscode.l10n.t('provider default')));
+	out.appendLine(vscode.l10n.t('Endpoint: {0}', info.endpoint ? redactSecrets(info.endpoint, []) : vscode.l10n.t('(not configured)')));
+	out.appendLine('');
+
+	try {
+		const report = await vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Notification,
+				title: vscode.l10n.t('A11Y Assist: Testing the AI connection...'),
+				cancellable: true
+			},
+			(_progress, token) => iaClient.testConnection(toAbortSignal(token), (exchange) => logExchange(out, exchange))
+		);
+
+		const visionSupport = report.vision.skipped
+			? vscode.l10n.t('not checked')
+			: report.vision.ok
+				? vscode.l10n.t('images accepted')
+				: report.vision.error?.kind === 'rejected'
+					? vscode.l10n.t('the model does not accept images (disable svgA11yAssist.useVision or switch models)')
+					: describeProbe(report.vision);
+		out.appendLine(vscode.l10n.t('Result - text: {0}', describeProbe(report.text)));
+		out.appendLine(vscode.l10n.t('Result - vision: {0}', describeProbe(report.vision)));
+		if (report.text.error) out.appendLine(vscode.l10n.t('Detail (text): {0}', report.text.error.message));
+		if (report.vision.error) out.appendLine(vscode.l10n.t('Detail (vision): {0}', report.vision.error.message));
+
+		const summary = vscode.l10n.t(
+			'{0}: text {1}; vision: {2}.',
+			report.providerLabel,
+			describeProbe(report.text),
+			visionSupport
+		);
+		const details = vscode.l10n.t('Show details');
+		const configure = vscode.l10n.t('Configure Provider');
+		const show = report.text.ok
+			? await vscode.window.showInformationMessage(`✅ ${summary}`, details)
+			: await vscode.window.showErrorMessage(`❌ ${summary}`, details, configure);
+		if (show === details) out.show();
+		if (show === configure) await vscode.commands.executeCommand('a11yAssist.configureProvider');
+	} catch (error) {
+		if (isCancellation(error)) return;
+		out.appendLine(vscode.l10n.t('Error: {0}', (error as Error).message));
+		const choice = await vscode.window.showErrorMessage(
+			vscode.l10n.t('Connection test: {0}', (error as Error).message),
+			vscode.l10n.t('Configure Provider')
+		);
+		if (choice) await vscode.commands.executeCommand('a11yAssist.configureProvider');
+	}
+}
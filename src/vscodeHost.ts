@@ -0,0 +1,178 @@
+import * as vscode from 'vscode';
+import * as path from 'node:path';
+import {
+	IAClient,
+	IAClientHost,
+	IAClientWarning,
+	AIProviderSetting,
+	MarkupElement,
+	SuggestOptions,
+	FileSuggestionCache,
+	LayeredSuggestionCache,
+	loadEnvConfig,
+	log,
+	redactSecrets,
+	resolveIAClientOptions,
+	resolveOutputLanguage,
+	extractElementContext,
+	normalizeLanguageTag
+} from './core';
+import { API_KEY_SECRET } from './credentials';
+import { getActiveProfile, profileSecretKey } from './profiles';
+
+/**
+ * Host do IAClient dentro do VS Code: avisos como notificação, no idioma da interface
+ * (o cliente é recriado quando a configuração muda)
+ */
+const vscodeHost: IAClientHost = {
+	warn: (message, warning) => {
+		vscode.window.showWarningMessage(warning ? warningMessage(warning) : message);
+	}
+};
+
+function warningMessage(warning: IAClientWarning): string {
+	switch (warning.kind) {
+		case 'text-fallback':
+			return vscode.l10n.t('AI call failed (text), using local heuristics: {0}', warning.detail);
+		case 'vision-fallback':
+			return vscode.l10n.t('AI call failed (vision), trying text mode: {0}', warning.detail);
+		case 'image-fallback':
+			return vscode.l10n.t('AI image analysis failed, using heuristics: {0}', warning.detail);
+		case 'image-not-found':
+			return vscode.l10n.t('Image file not found: {0}', warning.detail);
+	}
+}
+
+/**
+ * Caches de sugestões conforme svgA11yAssist.cache.*: o arquivo do workspace
+ * (se configurado) é consultado antes do armazenamento global da extensão
+ */
+export function createSuggestionCaches(context: vscode.ExtensionContext): FileSuggestionCache[] {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	if (!(config.get<boolean>('cache.enabled') ?? true)) return [];
+
+	const caches: FileSuggestionCache[] = [];
+	const workspaceFile = config.get<string>('cache.workspaceFile');
+	const root = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+	if (workspaceFile && root) {
+		caches.push(new FileSuggestionCache(path.resolve(root, workspaceFile)));
+	}
+	caches.push(new FileSuggestionCache(globalCacheFile(context)));
+	return caches;
+}
+
+function globalCacheFile(context: vscode.ExtensionContext): string {
+	return path.join(context.globalStorageUri.fsPath, 'suggestions.json');
+}
+
+/**
+ * Limpa o cache global. O arquivo do workspace é compartilhado com a equipe
+ * (versionado) e só é apagado com confirmação.
+ */
+export async function clearSuggestionCaches(context: vscode.ExtensionContext, caches: FileSuggestionCache[]): Promise<void> {
+	const globalFile = globalCacheFile(context);
+	const targets = caches.filter((c) => c.filePath === globalFile);
+	const shared = caches.filter((c) => c.filePath !== globalFile && c.size > 0);
+	if (shared.length) {
+		const clearShared = vscode.l10n.t('Clear Shared File Too');
+		const choice = await vscode.window.showWarningMessage(
+			vscode.l10n.t(
+				'The workspace cache file {0} is shared with your team. Clear it too?',
+				shared.map((c) => vscode.workspace.asRelativePath(c.filePath, false)).join(', ')
+			),
+			{ modal: true },
+			clearShared,
+			vscode.l10n.t('Only My Cache')
+		);
+		if (!choice) return;
+		if (choice === clearShared) targets.push(...shared);
+	}
+	const count = targets.reduce((total, c) => total + c.size, 0);
+	targets.forEach((c) => c.clear());
+	vscode.window.showInformationMessage(vscode.l10n.t('Suggestion cache cleared ({0} entries removed).', count));
+}
+
+/**
+ * Cria o cliente de IA com a configuração atual
+ * O perfil ativo (svgA11yAssist.activeProfile) sobrepõe provider/endpoint/model/useVision.
+ * A chave de API vem do SecretStorage (do perfil, se houver; svgA11yAssist.apiKey
+ * em texto puro continua aceita enquanto não for migrada)
+ */
+export async function createIAClient(
+	secrets: vscode.SecretStorage,
+	caches: FileSuggestionCache[] = []
+): Promise<IAClient> {
+	// Carregar variáveis do arquivo .env
+	const envConfig = loadEnvConfig(vscode.workspace.workspaceFolders?.[0]?.uri.fsPath);
+
+	// Ler configurações do VS Code
+	const config = vscode.workspace.getConfiguration('svgA11yAssist');
+	const profile = getActiveProfile(config);
+	const opts = resolveIAClientOptions(
+		{
+			apiKey: (profile && (await secrets.get(profileSecretKey(profile.name))))
+				|| (await secrets.get(API_KEY_SECRET))
+				|| config.get<string>('apiKey'),
+			endpoint: profile?.endpoint ?? config.get<string>('endpoint'),
+			model: profile?.model ?? config.get<string>('model'),
+			useVision: profile?.useVision ?? config.get<boolean>('useVision'),
+			provider: profile?.provider ?? config.get<AIProviderSetting>('provider'),
+			render: {
+				scale: config.get<number>('render.scale'),
+				background: config.get<string>('render.background'),
+				currentColor: config.get<string>('render.currentColor')
+			},
+			timeoutMs: (config.get<number>('requestTimeoutSeconds') ?? 60) * 1000,
+			maxRetries: config.get<number>('maxRetries')
+		},
+		envConfig
+	);
+
+	log.info(
+		`Cliente de IA: perfil=${profile?.name ?? '(padrão)'}, provedor=${opts.provider}, ` +
+		`endpoint=${opts.endpoint ? redactSecrets(opts.endpoint, [opts.apiKey]) : '(nenhum)'}, ` +
+		`modelo=${opts.model || '(padrão)'}, chave=${opts.apiKey ? 'presente' : 'ausente'}, visão=${opts.useVision}`
+	);
+	log.debug(`Caches de sugestões: ${caches.map((c) => c.filePath).join(', ') || 'desativado'}`);
+
+	const cache = caches.length ? new LayeredSuggestionCache(caches) : undefined;
+	return new IAClient(opts, vscodeHost, cache);
+}
+
+/**
+ * Liga o CancellationToken do VS Code (ex: "Cancelar" na notificação de progresso)
+ * a um AbortSignal, abortando a requisição HTTP em andamento
+ */
+export function toAbortSignal(token: vscode.CancellationToken): AbortSignal {
+	const controller = new AbortController();
+	if (token.isCancellationRequested) {
+		controller.abort();
+	} else {
+		token.onCancellationRequested(() => controller.abort());
+	}
+	return controller.signal;
+}
+
+/**
+ * Contexto e idioma da sugestão para um elemento do documento
+ * O idioma vem do lang do elemento/página, de svgA11yAssist.outputLanguageByFolder,
+ * de dicas de i18n no código, de svgA11yAssist.outputLanguage ou da interface do editor.
+ * As configurações são lidas no escopo do arquivo (valores por pasta do workspace).
+ */
+export function suggestOptionsFor(doc: vscode.TextDocument, text: string, element: MarkupElement): SuggestOptions {
+	const config = vscode.workspace.getConfiguration('svgA11yAssist', doc.uri);
+	const context = extractElementContext(text, element);
+	const language = resolveOutputLanguage({
+		lang: context.lang,
+		relativePath: vscode.workspace.asRelativePath(doc.uri, false),
+		folderLanguages: config.get<Record<string, string>>('outputLanguageByFolder'),
+		source: text,
+		setting: config.get<string>('outputLanguage'),
+		fallback: vscode.env.language
+	});
+	const locales = (config.get<string[]>('additionalLocales') ?? [])
+		.map((l) => normalizeLanguageTag(l))
+		.filter((l): l is string => !!l && l !== language.code);
+	log.debug(`Idioma da sugestão: ${language.code} (${language.source})${locales.length ? `, traduções: ${locales.join(', ')}` : ''}`);
+	return { context, language: language.code, locales: locales.length ? locales : undefined };
+}
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+import {
+	scanText,
+	languageIdForPath,
+	A11yRuleId,
+	DIAGNOSTIC_CODE_SVG,
+	supportedFilesGlob,
+	createPositionResolver,
+	A11yFinding,
+	GitignoreMatcher,
+	dialectForLanguage
+} from './core';
+
+/**
+ * Converte as falhas encontradas no texto em diagnósticos do VS Code
+ */
+export function buildDiagnostics(text: string, languageId: string): vscode.Diagnostic[] {
+	const findings = scanText(text, dialectForLanguage(languageId));
+	if (!findings.length) return [];
+	const positionAt = createPositionResolver(text);
+	return findings.map((f) => createDiagnostic(f, positionAt));
+}
+
+function createDiagnostic(
+	finding: A11yFinding,
+	positionAt: ReturnType<typeof createPositionResolver>
+): vscode.Diagnostic {
+	const start = positionAt(finding.start);
+	const end = positionAt(finding.end);
+	const diag = new vscode.Diagnostic(
+		new vscode.Range(start.line, start.character, end.line, end.character),
+		diagnosticMessage(finding.rule),
+		vscode.DiagnosticSeverity.Warning
+	);
+	diag.source = 'A11Y Assist';
+	diag.code = finding.rule;
+	return diag;
+}
+
+/**
+ * Mensagem do diagnóstico no idioma da interface
+ * (A11yFinding.message, usada pela CLI, fica em português)
+ */
+function diagnosticMessage(rule: A11yRuleId): string {
+	return rule === DIAGNOSTIC_CODE_SVG
+		? vscode.l10n.t('SVG without <title>/<desc> or aria-hidden: potential accessibility failure.')
+		: vscode.l10n.t('Image without alt attribute: WCAG 1.1.1 violation (Non-text Content).');
+}
+
+/**
+ * Carrega todos os .gitignore de cada pasta do workspace
+ */
+async function loadGitignoreMatchers(
+	token: vscode.CancellationToken
+): Promise<Map<string, GitignoreMatcher>> {
+	const matchers = new Map<string, GitignoreMatcher>();
+	const files = await vscode.workspace.findFiles('**/.gitignore', undefined, undefined, token);
+	// Arquivos mais rasos primeiro: regras de .gitignore aninhados prevalecem
+	files.sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+	for (const uri of files) {
+		const folder = vscode.workspace.getWorkspaceFolder(uri);
+		if (!folder) continue;
+		const relDir = vscode.workspace.asRelativePath(uri, false).split('/').slice(0, -1).join('/');
+		let matcher = matchers.get(folder.uri.toString());
+		if (!matcher) {
+			matcher = new GitignoreMatcher();
+			matchers.set(folder.uri.toString(), matcher);
+		}
+		const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+		matcher.add(relDir, content);
+	}
+	return matchers;
+}
+
+function isGitignored(uri: vscode.Uri, matchers: Map<string, GitignoreMatcher>): boolean {
+	const folder = vscode.workspace.getWorkspaceFolder(uri);
+	if (!folder) return false;
+	const matcher = matchers.get(folder.uri.toString());
+	return !!matcher && matcher.ignores(vscode.workspace.asRelativePath(uri, false));
+}
+
+/**
+ * Lista os arquivos HTML/JSX/TSX do workspace (ou só de `folder`), respeitando files.exclude e .gitignore
+ */
+export async function findAuditableFiles(token: vscode.CancellationToken, folder?: vscode.Uri): Promise<vscode.Uri[]> {
+	const include = folder ? new vscode.RelativePattern(folder, supportedFilesGlob()) : supportedFilesGlob();
+	// exclude undefined → aplica files.exclude
+	const [uris, matchers] = await Promise.all([
+		vscode.workspace.findFiles(include, undefined, undefined, token),
+		loadGitignoreMatchers(token)
+	]);
+	return uris.filter((uri) => !isGitignored(uri, matchers));
+}
+
+/**
+ * Lê o texto do arquivo, preferindo a versão em memória se o documento estiver aberto
+ */
+export async function readFileText(uri: vscode.Uri): Promise<string> {
+	const openDoc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+	if (openDoc) return openDoc.getText();
+	return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+}
+
+/**
+ * Varre todos os arquivos HTML/JSX/TSX do workspace (sem abri-los no editor)
+ * e publica os diagnósticos na coleção. Respeita files.exclude e .gitignore.
+ * Com `folder` (menu do Explorer), audita só os arquivos daquela pasta.
+ */
+export async function auditWorkspace(collection: vscode.DiagnosticCollection, folder?: vscode.Uri): Promise<void> {
+	if (!vscode.workspace.workspaceFolders?.length) {
+		vscode.window.showInformationMessage(vscode.l10n.t('Open a folder or workspace to run the audit.'));
+		return;
+	}
+
+	const summary = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: folder
+				? vscode.l10n.t('A11Y Assist: Auditing {0}', vscode.workspace.asRelativePath(folder))
+				: vscode.l10n.t('A11Y Assist: Workspace audit'),
+			cancellable: true
+		},
+		async (progress, token) => {
+			progress.report({ message: vscode.l10n.t('Looking for files...') });
+
+			const files = await findAuditableFiles(token, folder);
+
+			let filesWithIssues = 0;
+			let totalIssues = 0;
+			const increment = files.length ? 100 / files.length : 100;
+
+			for (let k = 0; k < files.length; k++) {
+				if (token.isCancellationRequested) {
+					vscode.window.showWarningMessage(
+						vscode.l10n.t('Audit cancelled after {0} of {1} files.', k, files.length)
+					);
+					return undefined;
+				}
+				const uri = files[k];
+				progress.report({
+					message: `${k + 1}/${files.length} ${vscode.workspace.asRelativePath(uri)}`,
+					increment
+				});
+
+				const languageId = languageIdForPath(uri.path);
+				if (!languageId) continue;
+				try {
+					const diags = buildDiagnostics(await readFileText(uri), languageId);
+					collection.set(uri, diags);
+					if (diags.length) {
+						filesWithIssues++;
+						totalIssues += diags.length;
+					}
+				} catch (err) {
+					vscode.window.showWarningMessage(
+						vscode.l10n.t('Failed to analyze {0}: {1}', vscode.workspace.asRelativePath(uri), (err as Error).message)
+					);
+				}
+			}
+
+			return totalIssues
+				? vscode.l10n.t('Audit finished: {0} issue(s) in {1} of {2} file(s).', totalIssues, filesWithIssues, files.length)
+				: vscode.l10n.t('Audit finished: no issues in {0} file(s).', files.length);
+		}
+	);
+	if (!summary) return;
+
+	const openReport = vscode.l10n.t('Open report');
+	if ((await vscode.window.showInformationMessage(summary, openReport)) === openReport) {
+		await vscode.commands.executeCommand('a11yAssist.showReport');
+	}
+}
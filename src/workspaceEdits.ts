@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import {
+	IAResponseSuggestion,
+	SvgNodeRange,
+	ImgNodeRange,
+	TextEdit,
+	computeSvgEdits,
+	computeImgEdits,
+	dialectForLanguage
+} from './core';
+
+/**
+ * Monta (ou complementa) um WorkspaceEdit aplicando a sugestão ao <svg>.
+ * Quando `metadata` é informado, cada alteração é registrada com ele
+ * (ex: needsConfirmation para revisão no Refactor Preview).
+ * Em JSX/TSX as alterações seguem as convenções do React.
+ */
+export function buildWorkspaceEditForSuggestion(
+	doc: vscode.TextDocument,
+	node: SvgNodeRange,
+	suggestion: IAResponseSuggestion,
+	edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit(),
+	metadata?: vscode.WorkspaceEditEntryMetadata
+): vscode.WorkspaceEdit {
+	return addTextEdits(edit, doc, computeSvgEdits(node, suggestion, dialectForLanguage(doc.languageId)), metadata);
+}
+
+/**
+ * Monta (ou complementa) um WorkspaceEdit adicionando o atributo alt à <img>
+ */
+export function buildWorkspaceEditForImg(
+	doc: vscode.TextDocument,
+	node: ImgNodeRange,
+	suggestion: IAResponseSuggestion,
+	edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit(),
+	metadata?: vscode.WorkspaceEditEntryMetadata
+): vscode.WorkspaceEdit {
+	return addTextEdits(edit, doc, computeImgEdits(node, suggestion, dialectForLanguage(doc.languageId)), metadata);
+}
+
+function addTextEdits(
+	edit: vscode.WorkspaceEdit,
+	doc: vscode.TextDocument,
+	edits: TextEdit[],
+	metadata?: vscode.WorkspaceEditEntryMetadata
+): vscode.WorkspaceEdit {
+	for (const e of edits) {
+		const range = new vscode.Range(doc.positionAt(e.start), doc.positionAt(e.end));
+		edit.replace(doc.uri, range, e.newText, metadata);
+	}
+	return edit;
+}